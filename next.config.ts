@@ -1,5 +1,50 @@
+import path from "path";
 import type { NextConfig } from "next";
 
+/**
+ * Modules holding secrets, such as the PayNow integration keys
+ * Anything that imports them (e.g. services/paynow.ts) is server-only too.
+ */
+const SERVER_ONLY_MODULES = [
+  path.join(__dirname, "src/services/config.ts"),
+];
+
+// The parts of webpack's compiler API the plugin below uses
+interface ResolveData {
+  createData: { resource?: string };
+  contextInfo: { issuer: string };
+}
+
+interface Compiler {
+  hooks: {
+    normalModuleFactory: {
+      tap(name: string, callback: (factory: {
+        hooks: { afterResolve: { tap(name: string, callback: (data: ResolveData) => void): void } };
+      }) => void): void;
+    };
+  };
+}
+
+/**
+ * Fails the client build when a server-only module is reached from a page or component
+ * Imports used only by getServerSideProps are removed before this runs, so they are allowed.
+ */
+class ServerOnlyModulesPlugin {
+  apply(compiler: Compiler) {
+    compiler.hooks.normalModuleFactory.tap("ServerOnlyModulesPlugin", (factory) => {
+      factory.hooks.afterResolve.tap("ServerOnlyModulesPlugin", (resolveData) => {
+        const resource = resolveData.createData.resource;
+        if (resource && SERVER_ONLY_MODULES.includes(resource)) {
+          throw new Error(
+            `${path.relative(__dirname, resource)} is server-only but was imported into the browser bundle ` +
+            `by ${path.relative(__dirname, resolveData.contextInfo.issuer)}`
+          );
+        }
+      });
+    });
+  }
+}
+
 const nextConfig: NextConfig = {
   reactStrictMode: true,
   images: {
@@ -11,6 +56,20 @@ const nextConfig: NextConfig = {
       },
     ],
   },
+  experimental: {
+    turbo: {
+      // `next dev --turbopack` skips the webpack plugin, so the browser gets a module that throws
+      resolveAlias: {
+        "@/services/config": { browser: "./src/services/config.browser.ts" },
+      },
+    },
+  },
+  webpack: (config, { isServer }) => {
+    if (!isServer) {
+      config.plugins.push(new ServerOnlyModulesPlugin());
+    }
+    return config;
+  },
 };
 
 export default nextConfig;
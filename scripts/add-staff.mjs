@@ -0,0 +1,134 @@
+/**
+ * Add Staff
+ * Creates a staff account for the admin area, or resets an existing one
+ *
+ * Usage: npm run staff:add -- <username> <viewer|operator|admin> ["Full Name"]
+ *
+ * The password is prompted for without echo, or read from STAFF_PASSWORD for
+ * scripted setups. Writes to the same files the app reads (services/staff.ts),
+ * honouring DATA_DIR, STAFF_STORE_PATH and AUDIT_LOG_PATH when they are exported.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+const ROLES = ['viewer', 'operator', 'admin'];
+const USERNAME_PATTERN = /^[a-z0-9._-]{2,32}$/;
+const MIN_PASSWORD_LENGTH = 12;
+
+// scrypt cost parameters; stored with each hash so they can be raised later
+const SCRYPT = { N: 16384, r: 8, p: 1 };
+
+const dataDir = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+const staffPath = process.env.STAFF_STORE_PATH || path.join(dataDir, 'staff.json');
+const auditPath = process.env.AUDIT_LOG_PATH || path.join(dataDir, 'audit.log');
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+/**
+ * Read a line from the terminal without echoing it
+ */
+function promptHidden(question) {
+  return new Promise((resolve, reject) => {
+    const { stdin, stdout } = process;
+    if (!stdin.isTTY) {
+      reject(new Error('No terminal to prompt for a password; set STAFF_PASSWORD instead'));
+      return;
+    }
+
+    stdout.write(question);
+    stdin.setRawMode(true);
+    stdin.resume();
+    stdin.setEncoding('utf8');
+
+    let value = '';
+    const onData = (char) => {
+      if (char === '\r' || char === '\n' || char === '\u0004') {
+        stdin.setRawMode(false);
+        stdin.pause();
+        stdin.removeListener('data', onData);
+        stdout.write('\n');
+        resolve(value);
+      } else if (char === '\u0003') {
+        stdout.write('\n');
+        process.exit(130);
+      } else if (char === '\u007f' || char === '\b') {
+        value = value.slice(0, -1);
+      } else {
+        value += char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+}
+
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64, SCRYPT);
+  return ['scrypt', SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+function readStaff() {
+  try {
+    return JSON.parse(fs.readFileSync(staffPath, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return { staff: {} };
+    throw error;
+  }
+}
+
+function writeStaff(data) {
+  fs.mkdirSync(path.dirname(staffPath), { recursive: true });
+  const tempPath = `${staffPath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+  fs.renameSync(tempPath, staffPath);
+}
+
+async function main() {
+  const [rawUsername, role, ...nameParts] = process.argv.slice(2);
+  const username = (rawUsername || '').toLowerCase();
+
+  if (!USERNAME_PATTERN.test(username) || !ROLES.includes(role)) {
+    fail(`Usage: npm run staff:add -- <username> <${ROLES.join('|')}> ["Full Name"]\n` +
+      'Usernames are 2-32 lowercase letters, digits, dots, dashes or underscores.');
+  }
+
+  let password = process.env.STAFF_PASSWORD;
+  if (!password) {
+    password = await promptHidden('Password: ');
+    if (password !== await promptHidden('Repeat password: ')) {
+      fail('Passwords do not match');
+    }
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    fail(`Passwords must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const data = readStaff();
+  const existing = data.staff[username];
+  data.staff[username] = {
+    username,
+    name: nameParts.join(' ') || existing?.name || username,
+    role,
+    passwordHash: hashPassword(password),
+    createdAt: existing?.createdAt || new Date().toISOString()
+  };
+  writeStaff(data);
+
+  fs.mkdirSync(path.dirname(auditPath), { recursive: true });
+  fs.appendFileSync(auditPath, `${JSON.stringify({
+    at: new Date().toISOString(),
+    actor: 'cli',
+    action: existing ? 'staff.updated' : 'staff.created',
+    target: username,
+    outcome: 'success',
+    details: { role }
+  })}\n`);
+
+  console.log(`${existing ? 'Updated' : 'Added'} ${username} (${role})`);
+}
+
+main().catch(error => fail(error.message));
@@ -3,11 +3,14 @@ import { Dialog, Transition } from '@headlessui/react';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { useCartStore } from '@/utils/cart';
 import CartItem from './CartItem';
+import CartNotices from './CartNotices';
 import { useRouter } from 'next/router';
+import { formatMoney } from '@/utils/money';
+import { BASE_CURRENCY, exchangeRate } from '@/utils/currency';
 
 export default function Cart() {
   const router = useRouter();
-  const { items, isOpen, toggleCart, total } = useCartStore();
+  const { items, isOpen, toggleCart, total, currency } = useCartStore();
 
   const handleCheckout = () => {
     toggleCart();
@@ -59,6 +62,10 @@ export default function Cart() {
                         </div>
                       </div>
 
+                      <div className="mt-4 empty:hidden">
+                        <CartNotices />
+                      </div>
+
                       <div className="mt-8">
                         {items.length === 0 ? (
                           <p className="text-dark-400">Your cart is empty</p>
@@ -80,8 +87,13 @@ export default function Cart() {
                       <div className="border-t border-dark-700 px-4 py-6 sm:px-6">
                         <div className="flex justify-between text-base font-medium text-white">
                           <p>Subtotal</p>
-                          <p>${total.toFixed(2)}</p>
+                          <p>{formatMoney(total)}</p>
                         </div>
+                        {currency !== BASE_CURRENCY && (
+                          <p className="mt-0.5 text-sm text-dark-400">
+                            Rate: 1 {BASE_CURRENCY} = {exchangeRate(currency)} {currency}
+                          </p>
+                        )}
                         <p className="mt-0.5 text-sm text-dark-400">
                           Shipping and taxes calculated at checkout.
                         </p>
@@ -1,6 +1,9 @@
 import Image from 'next/image';
 import { CartItem as CartItemType } from '@/types/types';
 import { useCartStore } from '@/utils/cart';
+import { formatMoney } from '@/utils/money';
+import { unitPrice } from '@/utils/currency';
+import { maxQuantity } from '@/utils/cartRules';
 import { MinusIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
 
 interface CartItemProps {
@@ -8,7 +11,8 @@ interface CartItemProps {
 }
 
 export default function CartItem({ item }: CartItemProps) {
-  const { updateQuantity, removeItem } = useCartStore();
+  const { updateQuantity, removeItem, currency } = useCartStore();
+  const atMax = item.quantity >= maxQuantity(item.stock);
 
   return (
     <div className="flex gap-4 py-4 border-b border-dark-700">
@@ -22,7 +26,7 @@ export default function CartItem({ item }: CartItemProps) {
       </div>
       <div className="flex-1">
         <h3 className="text-white font-medium">{item.name}</h3>
-        <p className="text-dark-400 text-sm">${item.price}</p>
+        <p className="text-dark-400 text-sm">{formatMoney(unitPrice(item, currency))}</p>
         <div className="flex items-center gap-2 mt-2">
           <button
             onClick={() => updateQuantity(item.id, Math.max(0, item.quantity - 1))}
@@ -33,10 +37,12 @@ export default function CartItem({ item }: CartItemProps) {
           <span className="text-white">{item.quantity}</span>
           <button
             onClick={() => updateQuantity(item.id, item.quantity + 1)}
-            className="p-1 rounded-md hover:bg-dark-700"
+            disabled={atMax}
+            className="p-1 rounded-md hover:bg-dark-700 disabled:opacity-40 disabled:hover:bg-transparent"
           >
             <PlusIcon className="h-4 w-4 text-dark-400" />
           </button>
+          {atMax && <span className="text-xs text-dark-400">Max {item.quantity}</span>}
           <button
             onClick={() => removeItem(item.id)}
             className="p-1 rounded-md hover:bg-dark-700 ml-auto"
@@ -0,0 +1,26 @@
+import { ExclamationTriangleIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { useCartStore } from '@/utils/cart';
+
+/**
+ * Lines changed because stock ran out or dropped since they were added
+ */
+export default function CartNotices() {
+  const notices = useCartStore((state) => state.notices);
+  const dismissNotices = useCartStore((state) => state.dismissNotices);
+
+  if (notices.length === 0) return null;
+
+  return (
+    <div role="status" className="flex gap-3 rounded-md border border-yellow-800 bg-yellow-900/20 p-3 text-sm text-yellow-300">
+      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+      <ul className="flex-1 space-y-1">
+        {notices.map((notice, index) => (
+          <li key={index}>{notice}</li>
+        ))}
+      </ul>
+      <button type="button" onClick={dismissNotices} aria-label="Dismiss" className="self-start hover:text-yellow-200">
+        <XMarkIcon className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useCartStore } from '@/utils/cart';
+import { SUPPORTED_CURRENCIES } from '@/utils/currency';
+import { Currency } from '@/types/types';
+
+export default function CurrencySelector() {
+  const { currency, setCurrency } = useCartStore();
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value as Currency)}
+      aria-label="Currency"
+      className="bg-dark-700 border border-dark-600 rounded-md px-2 py-1 text-sm text-white"
+    >
+      {SUPPORTED_CURRENCIES.map((code) => (
+        <option key={code} value={code}>
+          {code}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,21 @@
+import { STATUS_LABELS } from '@/services/lifecycle';
+import { PaymentStatus } from '@/types/types';
+
+const STATUS_STYLES: Record<PaymentStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-300',
+  paid: 'bg-green-500/10 text-green-300',
+  cancelled: 'bg-dark-600/40 text-dark-300',
+  failed: 'bg-red-500/10 text-red-300',
+  expired: 'bg-orange-500/10 text-orange-300',
+  disputed: 'bg-purple-500/10 text-purple-300',
+  partially_refunded: 'bg-sky-500/10 text-sky-300',
+  refunded: 'bg-blue-500/10 text-blue-300'
+};
+
+export default function OrderStatusBadge({ status }: { status: PaymentStatus }) {
+  return (
+    <span className={`inline-block rounded-full px-2.5 py-0.5 text-xs font-medium ${STATUS_STYLES[status]}`}>
+      {STATUS_LABELS[status]}
+    </span>
+  );
+}
@@ -1,6 +1,10 @@
 import Image from 'next/image';
+import toast from 'react-hot-toast';
 import { Product } from '@/types/types';
 import { useCartStore } from '@/utils/cart';
+import { formatMoney } from '@/utils/money';
+import { unitPrice } from '@/utils/currency';
+import { maxQuantity, MAX_QUANTITY_PER_ORDER } from '@/utils/cartRules';
 
 interface ProductCardProps {
   product: Product;
@@ -8,6 +12,22 @@ interface ProductCardProps {
 
 export default function ProductCard({ product }: ProductCardProps) {
   const addItem = useCartStore((state) => state.addItem);
+  const currency = useCartStore((state) => state.currency);
+  const line = useCartStore((state) => state.items.find((item) => item.id === product.id));
+
+  const handleAdd = () => {
+    // Stock on the cart line is the server's latest figure
+    const limit = maxQuantity(line?.stock ?? product.stock);
+    if ((line?.quantity ?? 0) >= limit) {
+      toast.error(limit === 0
+        ? `${product.name} is out of stock`
+        : limit === MAX_QUANTITY_PER_ORDER
+          ? `You can order up to ${limit} of ${product.name}`
+          : `Only ${limit} of ${product.name} in stock`);
+      return;
+    }
+    addItem(product);
+  };
 
   return (
     <div className="bg-dark-800 rounded-lg overflow-hidden shadow-lg transition-transform hover:scale-105">
@@ -23,9 +43,9 @@ export default function ProductCard({ product }: ProductCardProps) {
         <h3 className="text-lg font-semibold text-white">{product.name}</h3>
         <p className="text-dark-400 text-sm mt-1">{product.description}</p>
         <div className="mt-4 flex items-center justify-between">
-          <span className="text-white font-bold">${product.price}</span>
+          <span className="text-white font-bold">{formatMoney(unitPrice(product, currency))}</span>
           <button
-            onClick={() => addItem(product)}
+            onClick={handleAdd}
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-md text-sm transition-colors"
           >
             Add to Cart
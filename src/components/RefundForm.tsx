@@ -0,0 +1,130 @@
+import { FormEvent, useState } from 'react';
+import toast from 'react-hot-toast';
+import { netAmount, returnableQuantities } from '@/services/refunds';
+import { Order } from '@/types/types';
+import { formatMoney, toDecimalString } from '@/utils/money';
+
+interface RefundFormProps {
+  order: Order;
+  onRecorded: () => void;
+}
+
+const inputClass = 'w-full bg-dark-700 border border-dark-600 rounded-md px-3 py-2 text-sm text-white';
+
+/**
+ * Record a refund made outside the app against a paid order
+ * Defaults to refunding whatever is left, with nothing returned to stock.
+ */
+export default function RefundForm({ order, onRecorded }: RefundFormProps) {
+  const remaining = netAmount(order);
+  const returnable = returnableQuantities(order);
+
+  const [amount, setAmount] = useState(toDecimalString(remaining));
+  const [reason, setReason] = useState('');
+  const [externalReference, setExternalReference] = useState('');
+  const [returned, setReturned] = useState<Record<number, number>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(order.reference)}/refunds`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          amount,
+          reason,
+          externalReference,
+          items: Object.entries(returned)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([id, quantity]) => ({ id: Number(id), quantity }))
+        })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Could not record the refund');
+      }
+
+      toast.success(`Refund of ${formatMoney(data.refund.amount)} recorded`);
+      onRecorded();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not record the refund');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+      <div>
+        <label htmlFor="refund-amount" className="block text-xs text-dark-400 mb-1">
+          Amount ({order.amount.currency}, up to {formatMoney(remaining)})
+        </label>
+        <input
+          id="refund-amount"
+          inputMode="decimal"
+          required
+          value={amount}
+          onChange={event => setAmount(event.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="refund-reference" className="block text-xs text-dark-400 mb-1">PayNow or bank reference</label>
+        <input
+          id="refund-reference"
+          required
+          maxLength={100}
+          value={externalReference}
+          onChange={event => setExternalReference(event.target.value)}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label htmlFor="refund-reason" className="block text-xs text-dark-400 mb-1">Reason</label>
+        <input
+          id="refund-reason"
+          required
+          maxLength={500}
+          value={reason}
+          onChange={event => setReason(event.target.value)}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Units coming back to stock */}
+      <div className="sm:col-span-3 space-y-2">
+        <p className="text-xs text-dark-400">Returned to stock</p>
+        {order.items.map(item => (
+          <div key={item.id} className="flex items-center justify-between gap-4">
+            <label htmlFor={`returned-${item.id}`} className="text-dark-300">
+              {item.name}
+              <span className="ml-2 text-dark-400">({returnable[item.id] ?? 0} of {item.quantity} returnable)</span>
+            </label>
+            <input
+              id={`returned-${item.id}`}
+              type="number"
+              min={0}
+              max={returnable[item.id] ?? 0}
+              value={returned[item.id] ?? 0}
+              onChange={event => setReturned({ ...returned, [item.id]: Number(event.target.value) })}
+              className={`${inputClass} w-24`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="sm:col-span-3 flex justify-end">
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Recording...' : 'Record refund'}
+        </button>
+      </div>
+    </form>
+  );
+}
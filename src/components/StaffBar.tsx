@@ -0,0 +1,50 @@
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowRightStartOnRectangleIcon, UserCircleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { StaffSession } from '@/utils/session';
+
+const SECTIONS = [
+  { href: '/admin/orders', label: 'Orders' },
+  { href: '/admin/reconciliations', label: 'Reconciliation' }
+];
+
+/**
+ * Admin navigation, and who is signed in with a sign-out control
+ */
+export default function StaffBar({ staff }: { staff: StaffSession }) {
+  const router = useRouter();
+
+  const signOut = async () => {
+    try {
+      await fetch('/api/admin/session', { method: 'DELETE' });
+      await router.replace('/admin/login');
+    } catch {
+      toast.error('Sign-out failed');
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-end gap-4 mb-6 text-sm text-dark-400">
+      <nav className="flex gap-4 mr-auto">
+        {SECTIONS.map(section => (
+          <Link
+            key={section.href}
+            href={section.href}
+            className={router.pathname.startsWith(section.href) ? 'text-white' : 'hover:text-white'}
+          >
+            {section.label}
+          </Link>
+        ))}
+      </nav>
+      <span className="inline-flex items-center gap-2">
+        <UserCircleIcon className="h-5 w-5" />
+        {staff.username} &middot; {staff.role}
+      </span>
+      <button type="button" onClick={signOut} className="inline-flex items-center gap-1 hover:text-white">
+        <ArrowRightStartOnRectangleIcon className="h-5 w-5" />
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Server Startup
+ * Runs once when the Next.js server boots
+ * Handles:
+ * - Failing fast on missing or invalid PayNow configuration
+ * - Resuming status polling for orders left pending by a previous run
+ * - Starting customer email notifications
+ * - Starting the abandoned cart recovery job
+ */
+export async function register() {
+  // The poller uses Node timers and the file-backed ledger, so skip the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getConfig } = await import('@/services/config');
+    getConfig();
+
+    const { PaymentPoller } = await import('@/services/poller');
+    PaymentPoller.getInstance();
+
+    const { NotificationService } = await import('@/services/notifications');
+    NotificationService.getInstance();
+
+    const { CartRecoveryService } = await import('@/services/cartRecovery');
+    CartRecoveryService.getInstance();
+  }
+}
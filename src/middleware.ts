@@ -0,0 +1,39 @@
+/**
+ * Admin Access Middleware
+ * Keeps the admin area behind staff sign-in
+ * Handles:
+ * - Redirecting signed-out visitors on /admin pages to the sign-in page
+ * - Rejecting signed-out calls to /api/admin with 401
+ *
+ * Only checks the session signature and expiry; pages and API routes check the
+ * staff member's current role themselves (services/staff.ts).
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, verifySession } from '@/utils/session';
+
+// Reachable without a session, so staff can sign in
+const PUBLIC_PATHS = ['/admin/login', '/api/admin/session'];
+
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = await verifySession(request.cookies.get(SESSION_COOKIE)?.value);
+  if (session) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith('/api/')) {
+    return NextResponse.json({ success: false, message: 'Sign in required' }, { status: 401 });
+  }
+
+  const login = new URL('/admin/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*']
+};
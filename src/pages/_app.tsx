@@ -1,6 +1,7 @@
 import type { AppProps } from 'next/app'
 import Layout from '@/components/Layout'
 import { useThemeStore } from '@/utils/theme'
+import { startCartSync } from '@/utils/cartSync'
 import { useEffect } from 'react'
 import { useRouter } from 'next/router'
 import { Toaster } from 'react-hot-toast'
@@ -18,6 +19,9 @@ export default function App({ Component, pageProps }: AppProps) {
     }
   }, [isDarkMode])
 
+  // Keep the server copy of the cart in step with this browser
+  useEffect(() => startCartSync(), [])
+
   // Don't wrap payment pages with Layout
   if (router.pathname.startsWith('/payment/')) {
     return <Component {...pageProps} />
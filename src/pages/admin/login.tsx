@@ -0,0 +1,112 @@
+/**
+ * Staff Sign-in Page
+ * Entry point to the admin area
+ * Features:
+ * - Username and password form
+ * - Returns to the admin page that was asked for once signed in
+ * - Skips straight through when already signed in
+ */
+import { FormEvent, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import { useRouter } from 'next/router';
+import { LockClosedIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { getStaffSession } from '@/services/staff';
+
+interface LoginProps {
+  next: string;
+}
+
+/**
+ * Where to go after signing in
+ * Only admin paths on this site, so the link cannot send staff elsewhere
+ */
+function adminPath(value: unknown): string {
+  return typeof value === 'string' && /^\/admin(\/|\?|$)/.test(value) && !value.startsWith('/admin/login')
+    ? value
+    : '/admin/orders';
+}
+
+export const getServerSideProps: GetServerSideProps<LoginProps> = async ({ req, query }) => {
+  const next = adminPath(query.next);
+
+  if (await getStaffSession(req)) {
+    return { redirect: { destination: next, permanent: false } };
+  }
+  return { props: { next } };
+};
+
+const inputClass = 'w-full bg-dark-700 border border-dark-600 rounded-md px-3 py-2 text-sm text-white';
+
+export default function Login({ next }: LoginProps) {
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const signIn = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setIsSubmitting(true);
+      const response = await fetch('/api/admin/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Sign-in failed');
+      }
+
+      await router.replace(next);
+    } catch (error) {
+      setPassword('');
+      toast.error(error instanceof Error ? error.message : 'Sign-in failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-900 flex items-center justify-center px-4">
+      <form onSubmit={signIn} className="w-full max-w-sm bg-dark-800 rounded-2xl p-8 space-y-6">
+        <div className="flex items-center gap-3">
+          <LockClosedIcon className="h-6 w-6 text-blue-500" />
+          <h1 className="text-xl font-semibold text-white">Staff sign-in</h1>
+        </div>
+        <div>
+          <label htmlFor="username" className="block text-xs text-dark-400 mb-1">Username</label>
+          <input
+            id="username"
+            autoComplete="username"
+            autoFocus
+            required
+            value={username}
+            onChange={event => setUsername(event.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="password" className="block text-xs text-dark-400 mb-1">Password</label>
+          <input
+            id="password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+            className={inputClass}
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full px-4 py-2 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+/**
+ * Admin Order Detail Page
+ * Everything recorded about one order
+ * Features:
+ * - Customer, amount and method
+ * - Line items
+ * - Units paid for that were out of stock, when a payment outlived its reservation
+ * - Status history with sources and gateway messages
+ * - Raw PayNow replies and callbacks
+ * - Re-poll now, for pending orders that look stuck (operators and admins)
+ * - Refunds made so far, and recording a new one (operators and admins)
+ */
+import { useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeftIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { OrderStore } from '@/services/orders';
+import { STATUS_LABELS } from '@/services/lifecycle';
+import { getPaymentMethod } from '@/services/paymentMethods';
+import { getStaffSession } from '@/services/staff';
+import { canRefund, netAmount, refundedAmount } from '@/services/refunds';
+import OrderStatusBadge from '@/components/OrderStatusBadge';
+import RefundForm from '@/components/RefundForm';
+import StaffBar from '@/components/StaffBar';
+import { Order } from '@/types/types';
+import { formatMoney, multiplyMoney } from '@/utils/money';
+import { hasRole, StaffSession } from '@/utils/session';
+
+interface AdminOrderProps {
+  staff: StaffSession;
+  order: Order;
+  methodLabel: string;
+}
+
+export const getServerSideProps: GetServerSideProps<AdminOrderProps> = async ({ req, resolvedUrl, params }) => {
+  const staff = await getStaffSession(req);
+  if (!staff) {
+    return { redirect: { destination: `/admin/login?next=${encodeURIComponent(resolvedUrl)}`, permanent: false } };
+  }
+
+  const order = OrderStore.getInstance().get(String(params?.reference || ''));
+  if (!order) {
+    return { notFound: true };
+  }
+
+  return {
+    props: {
+      staff,
+      order,
+      methodLabel: getPaymentMethod(order.method)?.label ?? order.method
+    }
+  };
+};
+
+export default function AdminOrder({ staff, order, methodLabel }: AdminOrderProps) {
+  const router = useRouter();
+  const [isPolling, setIsPolling] = useState(false);
+  const isOperator = hasRole(staff.role, 'operator');
+  const canPoll = order.status === 'pending' && !!order.pollUrl && isOperator;
+  const refunds = order.refunds ?? [];
+
+  /**
+   * Ask PayNow for the order's status now, then reload the page with the result
+   */
+  const pollNow = async () => {
+    try {
+      setIsPolling(true);
+      const response = await fetch(`/api/admin/orders/${encodeURIComponent(order.reference)}/poll`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Re-poll failed');
+      }
+
+      toast.success(data.changed ? `Status is now ${STATUS_LABELS[data.status as Order['status']]}` : 'No change from PayNow');
+      await router.replace(router.asPath);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Re-poll failed');
+    } finally {
+      setIsPolling(false);
+    }
+  };
+
+  const details: [string, string][] = [
+    ['Customer', order.customer.name],
+    ['Email', order.customer.email],
+    ['Phone', order.customer.phone || '-'],
+    ['Method', methodLabel],
+    ['Amount', formatMoney(order.amount)],
+    ...(refunds.length > 0
+      ? [['Refunded', formatMoney(refundedAmount(order))], ['Net amount', formatMoney(netAmount(order))]] as [string, string][]
+      : []),
+    ['Exchange rate', `${order.exchangeRate} ${order.amount.currency}/USD`],
+    ['PayNow reference', order.paynowReference || '-'],
+    ['Created', new Date(order.createdAt).toLocaleString()],
+    ['Updated', new Date(order.updatedAt).toLocaleString()]
+  ];
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-12">
+      <div className="max-w-5xl mx-auto px-4 space-y-6">
+        <StaffBar staff={staff} />
+        <Link href="/admin/orders" className="inline-flex items-center text-dark-400 hover:text-white">
+          <ArrowLeftIcon className="h-5 w-5 mr-2" />
+          All orders
+        </Link>
+
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-semibold text-white font-mono">{order.reference}</h1>
+            <OrderStatusBadge status={order.status} />
+          </div>
+          {canPoll && (
+            <button
+              type="button"
+              onClick={pollNow}
+              disabled={isPolling}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500 disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${isPolling ? 'animate-spin' : ''}`} />
+              Re-poll now
+            </button>
+          )}
+        </div>
+
+        {/* Stock Shortfall */}
+        {order.stockShortfall && order.stockShortfall.length > 0 && (
+          <section role="alert" className="flex gap-3 rounded-2xl border border-yellow-800 bg-yellow-900/20 p-6 text-sm text-yellow-300">
+            <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+            <div className="space-y-1">
+              <p className="font-medium">Paid after its stock reservation expired, and some units had sold out:</p>
+              <ul>
+                {order.stockShortfall.map(line => (
+                  <li key={line.id}>
+                    {line.quantity} × {order.items.find(item => item.id === line.id)?.name ?? `Product ${line.id}`}
+                  </li>
+                ))}
+              </ul>
+              <p>Restock or refund these units.</p>
+            </div>
+          </section>
+        )}
+
+        {/* Order Details */}
+        <section className="bg-dark-800 rounded-2xl p-6">
+          <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-dark-400">{label}</dt>
+                <dd className="text-white break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+
+        {/* Line Items */}
+        <section className="bg-dark-800 rounded-2xl p-6">
+          <h2 className="text-lg font-medium text-white mb-4">Items</h2>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-dark-400 border-b border-dark-700">
+                <th className="py-2 font-normal">Product</th>
+                <th className="py-2 font-normal text-right">Qty</th>
+                <th className="py-2 font-normal text-right">Unit price</th>
+                <th className="py-2 font-normal text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-700 text-dark-300">
+              {order.items.map(item => (
+                <tr key={item.id}>
+                  <td className="py-2">{item.name}</td>
+                  <td className="py-2 text-right">{item.quantity}</td>
+                  <td className="py-2 text-right">{formatMoney(item.price)}</td>
+                  <td className="py-2 text-right">{formatMoney(multiplyMoney(item.price, item.quantity))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+
+        {/* Status History */}
+        <section className="bg-dark-800 rounded-2xl p-6">
+          <h2 className="text-lg font-medium text-white mb-4">Status history</h2>
+          <ol className="space-y-3 text-sm">
+            {order.history.map((change, index) => (
+              <li key={index} className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+                <span className="text-dark-400 w-44">{new Date(change.at).toLocaleString()}</span>
+                <span className="text-white">
+                  {change.from ? `${STATUS_LABELS[change.from]} → ` : ''}{STATUS_LABELS[change.status]}
+                </span>
+                <span className="text-dark-400">via {change.source}</span>
+                {change.gatewayStatus && <span className="text-dark-400">PayNow: {change.gatewayStatus}</span>}
+                {change.reason && <span className="text-dark-400">Reason: {change.reason}</span>}
+                {change.message && <span className="text-dark-300 w-full sm:w-auto">{change.message}</span>}
+              </li>
+            ))}
+          </ol>
+        </section>
+
+        {/* Refunds */}
+        {(refunds.length > 0 || (canRefund(order.status) && isOperator)) && (
+          <section className="bg-dark-800 rounded-2xl p-6 space-y-6">
+            <h2 className="text-lg font-medium text-white">Refunds</h2>
+            {refunds.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-dark-400 border-b border-dark-700">
+                    <th className="py-2 font-normal">Recorded</th>
+                    <th className="py-2 font-normal">Reference</th>
+                    <th className="py-2 font-normal">Reason</th>
+                    <th className="py-2 font-normal">Restocked</th>
+                    <th className="py-2 font-normal">By</th>
+                    <th className="py-2 font-normal text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-dark-700 text-dark-300">
+                  {refunds.map(refund => (
+                    <tr key={refund.id}>
+                      <td className="py-2">{new Date(refund.at).toLocaleString()}</td>
+                      <td className="py-2 font-mono">{refund.externalReference}</td>
+                      <td className="py-2">{refund.reason}</td>
+                      <td className="py-2">
+                        {refund.items.length > 0
+                          ? refund.items.map(item => `${item.quantity} × ${order.items.find(line => line.id === item.id)?.name ?? item.id}`).join(', ')
+                          : '-'}
+                      </td>
+                      <td className="py-2">{refund.recordedBy}</td>
+                      <td className="py-2 text-right">{formatMoney(refund.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {canRefund(order.status) && isOperator && (
+              <RefundForm key={refunds.length} order={order} onRecorded={() => router.replace(router.asPath)} />
+            )}
+          </section>
+        )}
+
+        {/* Raw Gateway Responses */}
+        <section className="bg-dark-800 rounded-2xl p-6">
+          <h2 className="text-lg font-medium text-white mb-4">Gateway responses</h2>
+          {(order.gatewayResponses ?? []).length === 0 && (
+            <p className="text-sm text-dark-400">No responses recorded for this order.</p>
+          )}
+          <div className="space-y-4">
+            {(order.gatewayResponses ?? []).map((response, index) => (
+              <div key={index}>
+                <p className="text-xs text-dark-400 mb-1">
+                  {new Date(response.at).toLocaleString()} &middot; {response.source}
+                </p>
+                <pre className="bg-dark-900 rounded-md p-3 text-xs text-dark-300 overflow-x-auto">
+                  {JSON.stringify(response.fields, null, 2)}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+/**
+ * Admin Orders Page
+ * Staff view of every payment the shop has initiated
+ * Features:
+ * - Filters by status, method, currency, date range and amount
+ * - Search by reference, email or phone
+ * - Paginated, newest first
+ * - Links to each order's detail view
+ * - CSV or JSON Lines export of a date range, with chosen columns
+ *
+ * Filters live in the query string, so a filtered list can be bookmarked or shared.
+ */
+import type { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { ArrowDownTrayIcon, MagnifyingGlassIcon } from '@heroicons/react/24/outline';
+import { OrderStore } from '@/services/orders';
+import { filterOrders, OrderFilters, parseOrderFilters } from '@/services/orderSearch';
+import { PAYMENT_STATUSES, STATUS_LABELS, wasPaid } from '@/services/lifecycle';
+import { getPaymentMethod, PAYMENT_METHODS } from '@/services/paymentMethods';
+import { getStaffSession } from '@/services/staff';
+import { netAmount } from '@/services/refunds';
+import { EXPORT_COLUMN_IDS, EXPORT_COLUMNS } from '@/services/exports';
+import OrderStatusBadge from '@/components/OrderStatusBadge';
+import StaffBar from '@/components/StaffBar';
+import { Money, PaymentStatus } from '@/types/types';
+import { SUPPORTED_CURRENCIES } from '@/utils/currency';
+import { formatMoney } from '@/utils/money';
+import { StaffSession } from '@/utils/session';
+
+const PAGE_SIZE = 50;
+
+interface OrderRow {
+  reference: string;
+  createdAt: string;
+  customerName: string;
+  email: string;
+  method: string;
+  amount: Money;
+  net: Money | null;    // Amount kept after refunds, null if never paid
+  status: PaymentStatus;
+}
+
+interface AdminOrdersProps {
+  staff: StaffSession;
+  orders: OrderRow[];
+  filters: OrderFilters;
+  matching: number;
+  page: number;
+  pages: number;
+  exportRange: { from: string; to: string }; // Filtered dates, else the current month
+}
+
+/**
+ * Query string for the current filters, optionally on another page
+ */
+function filterQuery(filters: OrderFilters, page?: number): string {
+  const params = new URLSearchParams(Object.entries(filters) as [string, string][]);
+  if (page && page > 1) params.set('page', String(page));
+  return params.toString();
+}
+
+export const getServerSideProps: GetServerSideProps<AdminOrdersProps> = async ({ req, resolvedUrl, query }) => {
+  const staff = await getStaffSession(req);
+  if (!staff) {
+    return { redirect: { destination: `/admin/login?next=${encodeURIComponent(resolvedUrl)}`, permanent: false } };
+  }
+
+  const filters = parseOrderFilters(query);
+  const matching = filterOrders(OrderStore.getInstance().list(), filters);
+
+  const pages = Math.max(1, Math.ceil(matching.length / PAGE_SIZE));
+  const page = Math.min(Math.max(1, Number(query.page) || 1), pages);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return {
+    props: {
+      staff,
+      orders: matching.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE).map(order => ({
+        reference: order.reference,
+        createdAt: order.createdAt,
+        customerName: order.customer.name,
+        email: order.customer.email,
+        method: getPaymentMethod(order.method)?.label ?? order.method,
+        amount: order.amount,
+        net: wasPaid(order.status) ? netAmount(order) : null,
+        status: order.status
+      })),
+      // Only the filters that are set; props cannot hold undefined
+      filters: JSON.parse(JSON.stringify(filters)),
+      matching: matching.length,
+      page,
+      pages,
+      exportRange: {
+        from: filters.from ?? `${today.slice(0, 7)}-01`,
+        to: filters.to ?? today
+      }
+    }
+  };
+};
+
+const inputClass = 'w-full bg-dark-700 border border-dark-600 rounded-md px-3 py-2 text-sm text-white';
+
+export default function AdminOrders({ staff, orders, filters, matching, page, pages, exportRange }: AdminOrdersProps) {
+  return (
+    <div className="min-h-screen bg-dark-900 py-12">
+      <div className="max-w-7xl mx-auto px-4">
+        <StaffBar staff={staff} />
+        <div className="flex items-baseline justify-between mb-8">
+          <h1 className="text-2xl font-semibold text-white">Orders</h1>
+          <p className="text-sm text-dark-400">{matching} matching</p>
+        </div>
+
+        {/* Filters - submitted as a GET form so they end up in the URL */}
+        <form method="get" className="bg-dark-800 rounded-2xl p-6 mb-6 grid grid-cols-2 md:grid-cols-4 gap-4">
+          <div className="col-span-2">
+            <label htmlFor="q" className="block text-xs text-dark-400 mb-1">Search</label>
+            <div className="relative">
+              <MagnifyingGlassIcon className="absolute left-3 top-2.5 h-4 w-4 text-dark-400" />
+              <input
+                id="q"
+                name="q"
+                defaultValue={filters.q}
+                placeholder="Reference, email or phone"
+                className={`${inputClass} pl-9`}
+              />
+            </div>
+          </div>
+          <div>
+            <label htmlFor="status" className="block text-xs text-dark-400 mb-1">Status</label>
+            <select id="status" name="status" defaultValue={filters.status ?? ''} className={inputClass}>
+              <option value="">Any</option>
+              {PAYMENT_STATUSES.map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="method" className="block text-xs text-dark-400 mb-1">Method</label>
+            <select id="method" name="method" defaultValue={filters.method ?? ''} className={inputClass}>
+              <option value="">Any</option>
+              {PAYMENT_METHODS.map(method => (
+                <option key={method.id} value={method.id}>{method.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="from" className="block text-xs text-dark-400 mb-1">From</label>
+            <input id="from" name="from" type="date" defaultValue={filters.from} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-xs text-dark-400 mb-1">To</label>
+            <input id="to" name="to" type="date" defaultValue={filters.to} className={inputClass} />
+          </div>
+          <div>
+            <label htmlFor="currency" className="block text-xs text-dark-400 mb-1">Currency</label>
+            <select id="currency" name="currency" defaultValue={filters.currency ?? ''} className={inputClass}>
+              <option value="">Any</option>
+              {SUPPORTED_CURRENCIES.map(currency => (
+                <option key={currency} value={currency}>{currency}</option>
+              ))}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor="minAmount" className="block text-xs text-dark-400 mb-1">Min amount</label>
+              <input id="minAmount" name="minAmount" inputMode="decimal" defaultValue={filters.minAmount} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="maxAmount" className="block text-xs text-dark-400 mb-1">Max amount</label>
+              <input id="maxAmount" name="maxAmount" inputMode="decimal" defaultValue={filters.maxAmount} className={inputClass} />
+            </div>
+          </div>
+          <div className="col-span-2 md:col-span-4 flex justify-end gap-4">
+            <Link href="/admin/orders" className="px-4 py-2 text-sm text-dark-400 hover:text-white">
+              Clear
+            </Link>
+            <button type="submit" className="px-4 py-2 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500">
+              Apply
+            </button>
+          </div>
+        </form>
+
+        {/* Export - the other filters are carried over as hidden fields */}
+        <form method="get" action="/api/admin/orders/export" className="bg-dark-800 rounded-2xl p-6 mb-6 space-y-4">
+          {Object.entries(filters)
+            .filter(([name]) => name !== 'from' && name !== 'to')
+            .map(([name, value]) => <input key={name} type="hidden" name={name} value={value} />)}
+          <div className="flex flex-wrap items-end gap-4">
+            <h2 className="text-lg font-medium text-white mr-auto">Export</h2>
+            <div>
+              <label htmlFor="export-from" className="block text-xs text-dark-400 mb-1">From</label>
+              <input id="export-from" name="from" type="date" required defaultValue={exportRange.from} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="export-to" className="block text-xs text-dark-400 mb-1">To</label>
+              <input id="export-to" name="to" type="date" required defaultValue={exportRange.to} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="export-format" className="block text-xs text-dark-400 mb-1">Format</label>
+              <select id="export-format" name="format" defaultValue="csv" className={inputClass}>
+                <option value="csv">CSV</option>
+                <option value="jsonl">JSON Lines</option>
+              </select>
+            </div>
+            <button type="submit" className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500">
+              <ArrowDownTrayIcon className="h-4 w-4" />
+              Download
+            </button>
+          </div>
+          <fieldset className="flex flex-wrap gap-x-6 gap-y-2 text-sm text-dark-300">
+            <legend className="sr-only">Columns</legend>
+            {EXPORT_COLUMN_IDS.map(id => (
+              <label key={id} className="inline-flex items-center gap-2">
+                <input type="checkbox" name="columns" value={id} defaultChecked />
+                {EXPORT_COLUMNS[id].label}
+              </label>
+            ))}
+          </fieldset>
+        </form>
+
+        {/* Results */}
+        <div className="bg-dark-800 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-dark-400 border-b border-dark-700">
+                <th className="px-6 py-3 font-normal">Reference</th>
+                <th className="px-6 py-3 font-normal">Created</th>
+                <th className="px-6 py-3 font-normal">Customer</th>
+                <th className="px-6 py-3 font-normal">Method</th>
+                <th className="px-6 py-3 font-normal text-right">Amount</th>
+                <th className="px-6 py-3 font-normal text-right">Net</th>
+                <th className="px-6 py-3 font-normal">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-700">
+              {orders.map(order => (
+                <tr key={order.reference} className="text-dark-300 hover:bg-dark-700/40">
+                  <td className="px-6 py-3 font-mono">
+                    <Link href={`/admin/orders/${encodeURIComponent(order.reference)}`} className="text-blue-500 hover:text-blue-400">
+                      {order.reference}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-3">{new Date(order.createdAt).toLocaleString()}</td>
+                  <td className="px-6 py-3">
+                    <div className="text-white">{order.customerName}</div>
+                    <div className="text-dark-400">{order.email}</div>
+                  </td>
+                  <td className="px-6 py-3">{order.method}</td>
+                  <td className="px-6 py-3 text-right">{formatMoney(order.amount)}</td>
+                  <td className="px-6 py-3 text-right">{order.net ? formatMoney(order.net) : '-'}</td>
+                  <td className="px-6 py-3"><OrderStatusBadge status={order.status} /></td>
+                </tr>
+              ))}
+              {orders.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-dark-400">No orders match these filters</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {pages > 1 && (
+          <div className="mt-6 flex items-center justify-between text-sm text-dark-400">
+            {page > 1 ? (
+              <Link href={`/admin/orders?${filterQuery(filters, page - 1)}`} className="text-blue-500 hover:text-blue-400">Previous</Link>
+            ) : <span />}
+            <span>Page {page} of {pages}</span>
+            {page < pages ? (
+              <Link href={`/admin/orders?${filterQuery(filters, page + 1)}`} className="text-blue-500 hover:text-blue-400">Next</Link>
+            ) : <span />}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+/**
+ * Admin Reconciliation Report Page
+ * One imported statement compared with the ledger
+ * Features:
+ * - Counts by discrepancy type
+ * - Each discrepancy with its statement line and a link to the order
+ * - Resolving discrepancies one at a time with a note (operators and admins)
+ * - Open-only view (`?show=open`)
+ */
+import { FormEvent, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowLeftIcon, CheckCircleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { OrderStore } from '@/services/orders';
+import { ReconciliationStore } from '@/services/reconciliationStore';
+import {
+  Discrepancy,
+  DISCREPANCY_LABELS,
+  DISCREPANCY_TYPES,
+  ReconciliationReport,
+  unresolved
+} from '@/services/reconciliation';
+import { getStaffSession } from '@/services/staff';
+import StaffBar from '@/components/StaffBar';
+import { hasRole, StaffSession } from '@/utils/session';
+
+interface ReconciliationReportProps {
+  staff: StaffSession;
+  report: ReconciliationReport;
+  knownOrders: string[]; // Discrepancy references that are orders in the ledger
+  openOnly: boolean;
+}
+
+export const getServerSideProps: GetServerSideProps<ReconciliationReportProps> = async ({ req, resolvedUrl, params, query }) => {
+  const staff = await getStaffSession(req);
+  if (!staff) {
+    return { redirect: { destination: `/admin/login?next=${encodeURIComponent(resolvedUrl)}`, permanent: false } };
+  }
+
+  const report = ReconciliationStore.getInstance().get(String(params?.id || ''));
+  if (!report) {
+    return { notFound: true };
+  }
+
+  const orders = OrderStore.getInstance();
+  return {
+    props: {
+      staff,
+      report,
+      knownOrders: report.discrepancies
+        .map(item => item.reference)
+        .filter((reference, index, references) => references.indexOf(reference) === index && orders.get(reference)),
+      openOnly: query.show === 'open'
+    }
+  };
+};
+
+/**
+ * Note field and button that resolve one discrepancy
+ */
+function ResolveForm({ reportId, discrepancy, onResolved }: {
+  reportId: string;
+  discrepancy: Discrepancy;
+  onResolved: () => void;
+}) {
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resolve = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setIsSaving(true);
+      const response = await fetch(
+        `/api/admin/reconciliations/${encodeURIComponent(reportId)}/discrepancies/${encodeURIComponent(discrepancy.id)}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ note })
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Could not resolve');
+      }
+
+      toast.success(`${discrepancy.id} resolved`);
+      onResolved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not resolve');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={resolve} className="flex gap-2">
+      <input
+        aria-label={`Resolution note for ${discrepancy.id}`}
+        required
+        maxLength={500}
+        placeholder="What was done"
+        value={note}
+        onChange={event => setNote(event.target.value)}
+        className="flex-1 min-w-40 bg-dark-700 border border-dark-600 rounded-md px-3 py-1.5 text-sm text-white"
+      />
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-3 py-1.5 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500 disabled:opacity-50"
+      >
+        Resolve
+      </button>
+    </form>
+  );
+}
+
+export default function ReconciliationReportPage({ staff, report, knownOrders, openOnly }: ReconciliationReportProps) {
+  const router = useRouter();
+  const canResolve = hasRole(staff.role, 'operator');
+  const open = unresolved(report);
+  const shown = openOnly ? open : report.discrepancies;
+
+  const counts = DISCREPANCY_TYPES.map(type => ({
+    type,
+    total: report.discrepancies.filter(item => item.type === type).length,
+    open: open.filter(item => item.type === type).length
+  }));
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-12">
+      <div className="max-w-7xl mx-auto px-4 space-y-6">
+        <StaffBar staff={staff} />
+        <Link href="/admin/reconciliations" className="inline-flex items-center text-dark-400 hover:text-white">
+          <ArrowLeftIcon className="h-5 w-5 mr-2" />
+          All statements
+        </Link>
+
+        <div>
+          <h1 className="text-2xl font-semibold text-white">{report.filename}</h1>
+          <p className="text-sm text-dark-400">
+            {report.period.from} to {report.period.to} &middot; imported {new Date(report.createdAt).toLocaleString()} by {report.createdBy}
+          </p>
+        </div>
+
+        {/* Summary */}
+        <section className="bg-dark-800 rounded-2xl p-6 grid grid-cols-2 md:grid-cols-7 gap-4 text-sm">
+          <div>
+            <p className="text-dark-400">Lines</p>
+            <p className="text-xl text-white">{report.lines}</p>
+          </div>
+          <div>
+            <p className="text-dark-400">Matched</p>
+            <p className="text-xl text-green-300">{report.matched}</p>
+          </div>
+          {counts.map(count => (
+            <div key={count.type}>
+              <p className="text-dark-400">{DISCREPANCY_LABELS[count.type]}</p>
+              <p className={`text-xl ${count.open > 0 ? 'text-yellow-300' : 'text-white'}`}>
+                {count.open}
+                <span className="text-sm text-dark-400"> / {count.total}</span>
+              </p>
+            </div>
+          ))}
+        </section>
+
+        {/* Discrepancies */}
+        <section className="bg-dark-800 rounded-2xl overflow-x-auto">
+          <div className="flex items-center justify-between px-6 pt-6">
+            <h2 className="text-lg font-medium text-white">
+              Discrepancies <span className="text-sm text-dark-400">({open.length} open)</span>
+            </h2>
+            <Link
+              href={`/admin/reconciliations/${encodeURIComponent(report.id)}${openOnly ? '' : '?show=open'}`}
+              className="text-sm text-blue-500 hover:text-blue-400"
+            >
+              {openOnly ? 'Show all' : 'Show open only'}
+            </Link>
+          </div>
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-left text-dark-400 border-b border-dark-700">
+                <th className="px-6 py-3 font-normal">#</th>
+                <th className="px-6 py-3 font-normal">Type</th>
+                <th className="px-6 py-3 font-normal">Reference</th>
+                <th className="px-6 py-3 font-normal">Line</th>
+                <th className="px-6 py-3 font-normal">Details</th>
+                <th className="px-6 py-3 font-normal">Resolution</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-700">
+              {shown.map(discrepancy => (
+                <tr key={discrepancy.id} className={discrepancy.resolution ? 'text-dark-400' : 'text-dark-300'}>
+                  <td className="px-6 py-3">{discrepancy.id}</td>
+                  <td className="px-6 py-3 whitespace-nowrap">{DISCREPANCY_LABELS[discrepancy.type]}</td>
+                  <td className="px-6 py-3 font-mono">
+                    {knownOrders.includes(discrepancy.reference) ? (
+                      <Link href={`/admin/orders/${encodeURIComponent(discrepancy.reference)}`} className="text-blue-500 hover:text-blue-400">
+                        {discrepancy.reference}
+                      </Link>
+                    ) : discrepancy.reference}
+                  </td>
+                  <td className="px-6 py-3">{discrepancy.line ?? '-'}</td>
+                  <td className="px-6 py-3">{discrepancy.message}</td>
+                  <td className="px-6 py-3">
+                    {discrepancy.resolution ? (
+                      <span className="inline-flex items-start gap-2">
+                        <CheckCircleIcon className="h-5 w-5 text-green-400 shrink-0" />
+                        <span>
+                          {discrepancy.resolution.note}
+                          <span className="block text-xs">
+                            {discrepancy.resolution.by}, {new Date(discrepancy.resolution.at).toLocaleString()}
+                          </span>
+                        </span>
+                      </span>
+                    ) : canResolve ? (
+                      <ResolveForm reportId={report.id} discrepancy={discrepancy} onResolved={() => router.replace(router.asPath)} />
+                    ) : (
+                      <span className="text-yellow-300">Open</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {shown.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-dark-400">
+                    {report.discrepancies.length === 0 ? 'The statement matches the ledger' : 'Every discrepancy has been resolved'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+/**
+ * Admin Reconciliation Page
+ * Imported PayNow merchant statements and how they compare with the ledger
+ * Features:
+ * - Statement CSV import with the period it covers (operators and admins)
+ * - Every report, newest first, with its open discrepancies
+ */
+import { FormEvent, useState } from 'react';
+import type { GetServerSideProps } from 'next';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import { ArrowUpTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { ReconciliationStore } from '@/services/reconciliationStore';
+import { unresolved } from '@/services/reconciliation';
+import { getStaffSession } from '@/services/staff';
+import StaffBar from '@/components/StaffBar';
+import { hasRole, StaffSession } from '@/utils/session';
+
+interface ReportRow {
+  id: string;
+  filename: string;
+  period: { from: string; to: string };
+  lines: number;
+  matched: number;
+  open: number;
+  createdBy: string;
+  createdAt: string;
+}
+
+interface ReconciliationsProps {
+  staff: StaffSession;
+  reports: ReportRow[];
+  defaultPeriod: { from: string; to: string }; // Last calendar month
+}
+
+export const getServerSideProps: GetServerSideProps<ReconciliationsProps> = async ({ req, resolvedUrl }) => {
+  const staff = await getStaffSession(req);
+  if (!staff) {
+    return { redirect: { destination: `/admin/login?next=${encodeURIComponent(resolvedUrl)}`, permanent: false } };
+  }
+
+  const now = new Date();
+  const firstOfMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+
+  return {
+    props: {
+      staff,
+      reports: ReconciliationStore.getInstance().list().map(report => ({
+        id: report.id,
+        filename: report.filename,
+        period: report.period,
+        lines: report.lines,
+        matched: report.matched,
+        open: unresolved(report).length,
+        createdBy: report.createdBy,
+        createdAt: report.createdAt
+      })),
+      defaultPeriod: {
+        from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 10),
+        to: new Date(firstOfMonth - 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+      }
+    }
+  };
+};
+
+const inputClass = 'w-full bg-dark-700 border border-dark-600 rounded-md px-3 py-2 text-sm text-white';
+
+export default function Reconciliations({ staff, reports, defaultPeriod }: ReconciliationsProps) {
+  const router = useRouter();
+  const [file, setFile] = useState<File | null>(null);
+  const [from, setFrom] = useState(defaultPeriod.from);
+  const [to, setTo] = useState(defaultPeriod.to);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importStatement = async (event: FormEvent) => {
+    event.preventDefault();
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const response = await fetch('/api/admin/reconciliations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename: file.name, from, to, csv: await file.text() })
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.problems?.join('\n') || data.message || 'Import failed');
+      }
+
+      await router.push(`/admin/reconciliations/${encodeURIComponent(data.id)}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Import failed');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-dark-900 py-12">
+      <div className="max-w-7xl mx-auto px-4">
+        <StaffBar staff={staff} />
+        <h1 className="text-2xl font-semibold text-white mb-8">Reconciliation</h1>
+
+        {/* Statement Import */}
+        {hasRole(staff.role, 'operator') && (
+          <form onSubmit={importStatement} className="bg-dark-800 rounded-2xl p-6 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label htmlFor="statement" className="block text-xs text-dark-400 mb-1">PayNow merchant statement (CSV)</label>
+              <input
+                id="statement"
+                type="file"
+                accept=".csv,text/csv"
+                required
+                onChange={event => setFile(event.target.files?.[0] ?? null)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label htmlFor="from" className="block text-xs text-dark-400 mb-1">Statement from</label>
+              <input id="from" type="date" required value={from} onChange={event => setFrom(event.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label htmlFor="to" className="block text-xs text-dark-400 mb-1">Statement to</label>
+              <input id="to" type="date" required value={to} onChange={event => setTo(event.target.value)} className={inputClass} />
+            </div>
+            <div className="md:col-span-4 flex justify-end">
+              <button
+                type="submit"
+                disabled={isImporting || !file}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-md bg-blue-600 text-sm text-white hover:bg-blue-500 disabled:opacity-50"
+              >
+                <ArrowUpTrayIcon className="h-4 w-4" />
+                {isImporting ? 'Importing...' : 'Import and reconcile'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {/* Reports */}
+        <div className="bg-dark-800 rounded-2xl overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-dark-400 border-b border-dark-700">
+                <th className="px-6 py-3 font-normal">Imported</th>
+                <th className="px-6 py-3 font-normal">Statement</th>
+                <th className="px-6 py-3 font-normal">Period</th>
+                <th className="px-6 py-3 font-normal text-right">Lines</th>
+                <th className="px-6 py-3 font-normal text-right">Matched</th>
+                <th className="px-6 py-3 font-normal text-right">Open</th>
+                <th className="px-6 py-3 font-normal">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-700">
+              {reports.map(report => (
+                <tr key={report.id} className="text-dark-300 hover:bg-dark-700/40">
+                  <td className="px-6 py-3">
+                    <Link href={`/admin/reconciliations/${encodeURIComponent(report.id)}`} className="text-blue-500 hover:text-blue-400">
+                      {new Date(report.createdAt).toLocaleString()}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-3">{report.filename}</td>
+                  <td className="px-6 py-3">{report.period.from} to {report.period.to}</td>
+                  <td className="px-6 py-3 text-right">{report.lines}</td>
+                  <td className="px-6 py-3 text-right">{report.matched}</td>
+                  <td className={`px-6 py-3 text-right ${report.open > 0 ? 'text-yellow-300' : 'text-green-300'}`}>{report.open}</td>
+                  <td className="px-6 py-3">{report.createdBy}</td>
+                </tr>
+              ))}
+              {reports.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-12 text-center text-dark-400">No statements imported yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
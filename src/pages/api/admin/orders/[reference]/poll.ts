@@ -0,0 +1,70 @@
+/**
+ * API Endpoint: Re-poll Order
+ * Asks PayNow for a pending order's status right away, for orders that look stuck
+ *
+ * Records any change exactly as a scheduled poll would, and makes sure the
+ * order is still being followed by the status poller afterwards.
+ * Needs the operator role; every attempt is written to the audit log.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { PaymentPoller } from '@/services/poller';
+import { clientIp, requireStaff } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const reference = String(req.query.reference || '');
+  const staff = await requireStaff(req, res, 'operator', 'order.repoll', reference);
+  if (!staff) return;
+
+  const audit = (outcome: 'success' | 'failure', details?: Record<string, unknown>) => {
+    AuditLog.getInstance().record({
+      actor: staff.username,
+      role: staff.role,
+      action: 'order.repoll',
+      target: reference,
+      outcome,
+      details,
+      ip: clientIp(req)
+    });
+  };
+
+  const order = OrderStore.getInstance().get(reference);
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+  if (order.status !== 'pending' || !order.pollUrl) {
+    return res.status(409).json({ success: false, message: `Only pending orders can be re-polled; this one is ${order.status}` });
+  }
+
+  try {
+    const poller = PaymentPoller.getInstance();
+    const updated = await poller.refresh(reference) ?? order;
+
+    // Picks the order back up if its timer was lost, e.g. by a crash mid-poll
+    if (updated.status === 'pending') {
+      poller.track(reference);
+    }
+    audit('success', { from: order.status, to: updated.status });
+
+    return res.status(200).json({
+      success: true,
+      status: updated.status,
+      changed: updated.status !== order.status
+    });
+  } catch (error) {
+    console.error('Re-poll failed:', { reference, error });
+    audit('failure', { error: error instanceof Error ? error.message : String(error) });
+    return res.status(502).json({
+      success: false,
+      message: error instanceof Error ? error.message : 'Failed to check payment status'
+    });
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * API Endpoint: Record Refund
+ * Records a refund already made to the customer, e.g. through the PayNow merchant portal
+ *
+ * Body: { amount: "12.50", reason, externalReference, items: [{ id, quantity }] }
+ * The amount is in the order's currency; items are the units returned to stock (may be empty).
+ * Needs the operator role; every attempt is written to the audit log.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { RefundError } from '@/services/refunds';
+import { clientIp, requireStaff } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+import { parseMoney, toDecimalString } from '@/utils/money';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const reference = String(req.query.reference || '');
+  const staff = await requireStaff(req, res, 'operator', 'order.refund', reference);
+  if (!staff) return;
+
+  const orders = OrderStore.getInstance();
+  const order = orders.get(reference);
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+
+  const audit = (outcome: 'success' | 'failure', details: Record<string, unknown>) => {
+    AuditLog.getInstance().record({
+      actor: staff.username,
+      role: staff.role,
+      action: 'order.refund',
+      target: reference,
+      outcome,
+      details,
+      ip: clientIp(req)
+    });
+  };
+
+  const { amount, reason, externalReference, items } = req.body ?? {};
+  let refundAmount;
+  try {
+    refundAmount = parseMoney(String(amount ?? ''), order.amount.currency);
+  } catch {
+    return res.status(400).json({ success: false, message: 'Amount must be a decimal such as 12.50' });
+  }
+
+  try {
+    const { order: updated, refund } = orders.recordRefund(reference, {
+      amount: refundAmount,
+      reason: typeof reason === 'string' ? reason : '',
+      externalReference: typeof externalReference === 'string' ? externalReference : '',
+      items: Array.isArray(items)
+        ? items.map((item: { id?: unknown; quantity?: unknown }) => ({ id: Number(item?.id), quantity: Number(item?.quantity) }))
+        : []
+    }, staff.username);
+
+    audit('success', {
+      refund: refund.id,
+      amount: toDecimalString(refund.amount),
+      currency: refund.amount.currency,
+      externalReference: refund.externalReference,
+      items: refund.items,
+      status: updated.status
+    });
+    return res.status(200).json({ success: true, status: updated.status, refund });
+  } catch (error) {
+    if (error instanceof RefundError) {
+      audit('failure', { amount: toDecimalString(refundAmount), problems: error.problems });
+      return res.status(400).json({ success: false, message: error.message, problems: error.problems });
+    }
+    throw error;
+  }
+}
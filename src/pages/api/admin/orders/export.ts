@@ -0,0 +1,100 @@
+/**
+ * API Endpoint: Order Export
+ * Downloads the orders in a date range for the bookkeeper
+ *
+ * GET ?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv|jsonl&columns=reference,gross,net
+ * Accepts the same filters as the admin order list (status, method, currency, ...);
+ * the range covers the day each order was paid, or created if it never was.
+ * Orders are taken from the ledger one at a time, oldest first, and rows are streamed
+ * in batches, waiting for the client to keep up. No list of the month's orders or
+ * copy of the download is built up; the ledger file itself is parsed in one go.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { matchesFilters, parseOrderFilters } from '@/services/orderSearch';
+import { exportHeader, exportRow, parseExportOptions } from '@/services/exports';
+import { clientIp, requireStaff } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+
+// Bytes gathered before each write to the socket
+const BATCH_SIZE = 64 * 1024;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+export const config = {
+  api: { responseLimit: false }
+};
+
+/**
+ * Write a chunk, resolving once the socket can take more or the client has gone
+ */
+function write(res: NextApiResponse, chunk: string): Promise<void> {
+  if (res.write(chunk)) return Promise.resolve();
+
+  return new Promise(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.once('drain', done);
+    res.once('close', done);
+  });
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const staff = await requireStaff(req, res, 'viewer', 'orders.export');
+  if (!staff) return;
+
+  const filters = parseOrderFilters(req.query);
+  if (!filters.from || !filters.to) {
+    return res.status(400).json({ success: false, message: 'from and to dates (YYYY-MM-DD) are required' });
+  }
+  if (filters.from > filters.to) {
+    return res.status(400).json({ success: false, message: 'from must not be after to' });
+  }
+
+  const options = parseExportOptions(req.query);
+
+  res.status(200);
+  res.setHeader('Content-Type', CONTENT_TYPES[options.format]);
+  res.setHeader('Content-Disposition', `attachment; filename="orders-${filters.from}-to-${filters.to}.${options.format}"`);
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  let rows = 0;
+  let batch = exportHeader(options);
+  await OrderStore.getInstance().forEachOrder(async order => {
+    // Stop quietly if the download was abandoned
+    if (res.destroyed) return false;
+    if (!matchesFilters(order, filters)) return;
+
+    rows++;
+    batch += exportRow(order, options);
+    if (batch.length >= BATCH_SIZE) {
+      await write(res, batch);
+      batch = '';
+    }
+  });
+
+  const completed = !res.destroyed;
+  if (completed) res.end(batch);
+
+  AuditLog.getInstance().record({
+    actor: staff.username,
+    role: staff.role,
+    action: 'orders.export',
+    outcome: 'success',
+    details: { filters, format: options.format, columns: options.columns, rows, completed },
+    ip: clientIp(req)
+  });
+}
@@ -0,0 +1,53 @@
+/**
+ * API Endpoint: Resolve Discrepancy
+ * Records how an operator dealt with one line of a reconciliation report
+ *
+ * POST { note } - the note says what was done, e.g. "Refund recorded" or "PayNow confirmed duplicate".
+ * Needs the operator role and is audited.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ReconciliationStore } from '@/services/reconciliationStore';
+import { clientIp, requireStaff } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const id = String(req.query.id || '');
+  const discrepancyId = String(req.query.discrepancyId || '');
+  const target = `${id}/${discrepancyId}`;
+
+  const staff = await requireStaff(req, res, 'operator', 'reconciliation.resolve', target);
+  if (!staff) return;
+
+  const note = typeof req.body?.note === 'string' ? req.body.note.trim() : '';
+  if (!note || note.length > 500) {
+    return res.status(400).json({ success: false, message: 'A note of up to 500 characters is required' });
+  }
+
+  let discrepancy;
+  try {
+    discrepancy = ReconciliationStore.getInstance().resolve(id, discrepancyId, note, staff.username);
+  } catch (error) {
+    return res.status(409).json({ success: false, message: error instanceof Error ? error.message : 'Already resolved' });
+  }
+  if (!discrepancy) {
+    return res.status(404).json({ success: false, message: 'Discrepancy not found' });
+  }
+
+  AuditLog.getInstance().record({
+    actor: staff.username,
+    role: staff.role,
+    action: 'reconciliation.resolve',
+    target,
+    outcome: 'success',
+    details: { type: discrepancy.type, reference: discrepancy.reference, note },
+    ip: clientIp(req)
+  });
+  return res.status(200).json({ success: true, discrepancy });
+}
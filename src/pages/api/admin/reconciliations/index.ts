@@ -0,0 +1,73 @@
+/**
+ * API Endpoint: Import Merchant Statement
+ * Reconciles a PayNow merchant statement (CSV) against the order ledger and saves the report
+ *
+ * Body: { filename, from: "YYYY-MM-DD", to: "YYYY-MM-DD", csv }
+ * `from` and `to` are the days the statement covers; orders paid in them
+ * are expected on the statement. Needs the operator role and is audited.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { parseStatement, StatementError } from '@/services/statements';
+import { reconcile } from '@/services/reconciliation';
+import { ReconciliationStore } from '@/services/reconciliationStore';
+import { clientIp, requireStaff } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '10mb' } }
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const staff = await requireStaff(req, res, 'operator', 'reconciliation.import');
+  if (!staff) return;
+
+  const { filename, from, to, csv } = req.body ?? {};
+  if (typeof csv !== 'string' || !csv.trim()) {
+    return res.status(400).json({ success: false, message: 'Choose a statement CSV to import' });
+  }
+  if (typeof from !== 'string' || typeof to !== 'string' ||
+    !DATE_PATTERN.test(from) || !DATE_PATTERN.test(to) || from > to) {
+    return res.status(400).json({ success: false, message: 'Give the statement period as from and to dates (YYYY-MM-DD)' });
+  }
+
+  const audit = (outcome: 'success' | 'failure', details: Record<string, unknown>) => {
+    AuditLog.getInstance().record({
+      actor: staff.username,
+      role: staff.role,
+      action: 'reconciliation.import',
+      outcome,
+      details: { filename, from, to, ...details },
+      ip: clientIp(req)
+    });
+  };
+
+  try {
+    const lines = parseStatement(csv);
+    const period = { from, to };
+    const report = ReconciliationStore.getInstance().create({
+      filename: typeof filename === 'string' && filename ? filename : 'statement.csv',
+      period,
+      ...reconcile(lines, OrderStore.getInstance().list(), period),
+      createdBy: staff.username
+    });
+
+    audit('success', { report: report.id, lines: report.lines, discrepancies: report.discrepancies.length });
+    return res.status(200).json({ success: true, id: report.id });
+  } catch (error) {
+    if (error instanceof StatementError) {
+      audit('failure', { problems: error.problems });
+      return res.status(400).json({ success: false, message: error.message, problems: error.problems });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Endpoint: Staff Session
+ * Signs staff in and out of the admin area
+ *
+ * POST { username, password } checks the credentials and sets the session cookie.
+ * DELETE clears it. Both outcomes, including failed sign-ins, go to the audit log.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clientIp, getStaffSession, StaffStore } from '@/services/staff';
+import { AuditLog } from '@/services/audit';
+import { SESSION_COOKIE, SESSION_TTL_MS, signSession } from '@/utils/session';
+
+/**
+ * Set-Cookie value for the session; an empty token expires the cookie
+ */
+function sessionCookie(token: string, maxAgeSeconds: number): string {
+  const attributes = [
+    `${SESSION_COOKIE}=${token}`,
+    'Path=/',
+    'HttpOnly',
+    'SameSite=Lax',
+    `Max-Age=${maxAgeSeconds}`
+  ];
+  if (process.env.NODE_ENV === 'production') {
+    attributes.push('Secure');
+  }
+  return attributes.join('; ');
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  const audit = AuditLog.getInstance();
+  const ip = clientIp(req);
+
+  if (req.method === 'POST') {
+    const username = typeof req.body?.username === 'string' ? req.body.username.trim() : '';
+    const password = typeof req.body?.password === 'string' ? req.body.password : '';
+    if (!username || !password) {
+      return res.status(400).json({ success: false, message: 'Username and password are required' });
+    }
+
+    const member = await StaffStore.getInstance().authenticate(username, password);
+    if (!member) {
+      audit.record({ actor: username, action: 'staff.login', outcome: 'failure', ip });
+      return res.status(401).json({ success: false, message: 'Incorrect username or password' });
+    }
+
+    const token = await signSession({
+      username: member.username,
+      role: member.role,
+      expiresAt: Date.now() + SESSION_TTL_MS
+    });
+    res.setHeader('Set-Cookie', sessionCookie(token, SESSION_TTL_MS / 1000));
+    audit.record({ actor: member.username, role: member.role, action: 'staff.login', outcome: 'success', ip });
+
+    return res.status(200).json({ success: true, username: member.username, name: member.name, role: member.role });
+  }
+
+  if (req.method === 'DELETE') {
+    const session = await getStaffSession(req);
+    res.setHeader('Set-Cookie', sessionCookie('', 0));
+    if (session) {
+      audit.record({ actor: session.username, role: session.role, action: 'staff.logout', outcome: 'success', ip });
+    }
+    return res.status(200).json({ success: true });
+  }
+
+  return res.status(405).json({ message: 'Method not allowed' });
+}
@@ -0,0 +1,156 @@
+/**
+ * API Endpoint: Server Cart
+ * Server copy of the browser's cart, keyed by its random cart id
+ *
+ * GET: the saved cart, priced from today's catalog, and whether it has been paid for
+ * PUT: { items: [{ id, quantity }], currency, customer?: { name, email } }
+ *   Replaces the saved lines; the customer is only replaced when sent.
+ *   Lines are fitted to the stock available and the per-order maximum (utils/cartRules.ts),
+ *   and every line that changed is listed in `adjustments`.
+ *
+ * Each item's `stock` is the units available now, not the catalog figure.
+ * A client may attach only a few new emails to carts per hour (429 after that), so the
+ * recovery email cannot be pointed at strangers in bulk.
+ *
+ * Answers 404 with `sync: false` when CART_SYNC is off, so the browser stops syncing.
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { CART_ID_PATTERN, CartService, cartItemsOf, CartUpdate, SavedCart } from '@/services/carts';
+import { CatalogService, RequestedLine } from '@/services/catalog';
+import { InventoryService } from '@/services/inventory';
+import { getConfig } from '@/services/config';
+import { isValidEmail } from '@/services/mail';
+import { clientIp } from '@/services/staff';
+import { isSupportedCurrency } from '@/utils/currency';
+import { fitQuantity, LineAdjustment } from '@/utils/cartRules';
+
+const MAX_LINES = 100;
+const MAX_QUANTITY = 999;
+
+/**
+ * What the browser needs to know about a saved cart; the customer's details are never sent back
+ */
+function publicCart(cart: SavedCart) {
+  const inventory = InventoryService.getInstance();
+
+  return {
+    id: cart.id,
+    status: cart.convertedAt ? 'converted' : 'open',
+    items: cartItemsOf(cart).map(item => ({ ...item, stock: inventory.available(item.id, cart.orderReference) })),
+    currency: cart.currency
+  };
+}
+
+/**
+ * Apply the quantity rules against the stock available now
+ * @param exceptReference - The cart's own pending order, whose reserved units are still the shopper's
+ */
+function fitToStock(lines: RequestedLine[], exceptReference?: string): { items: RequestedLine[]; adjustments: LineAdjustment[] } {
+  const inventory = InventoryService.getInstance();
+  const items: RequestedLine[] = [];
+  const adjustments: LineAdjustment[] = [];
+
+  lines.forEach(line => {
+    if (!CatalogService.getProduct(line.id)) {
+      adjustments.push({ id: line.id, requested: line.quantity, quantity: 0, reason: 'unavailable' });
+      return;
+    }
+
+    const { quantity, reason } = fitQuantity(line.quantity, inventory.available(line.id, exceptReference));
+    if (reason) {
+      adjustments.push({ id: line.id, requested: line.quantity, quantity, reason });
+    }
+    if (quantity > 0) {
+      items.push({ id: line.id, quantity });
+    }
+  });
+
+  return { items, adjustments };
+}
+
+/**
+ * Check a PUT body
+ * @returns The update, or a message saying what is wrong with it
+ */
+function parseUpdate(body: Record<string, unknown>): CartUpdate | string {
+  const { items, currency, customer } = body;
+
+  if (!isSupportedCurrency(currency)) {
+    return `Unsupported currency: ${currency}`;
+  }
+  if (!Array.isArray(items) || items.length > MAX_LINES) {
+    return `items must be a list of at most ${MAX_LINES} lines`;
+  }
+
+  const quantities = new Map<number, number>();
+  for (const line of items as Partial<RequestedLine>[]) {
+    const id = Number(line?.id);
+    const quantity = Number(line?.quantity);
+    if (!Number.isInteger(id) || !Number.isInteger(quantity) || quantity <= 0 || quantity > MAX_QUANTITY) {
+      return `Each line needs a product id and a quantity from 1 to ${MAX_QUANTITY}`;
+    }
+    quantities.set(id, Math.min((quantities.get(id) || 0) + quantity, MAX_QUANTITY));
+  }
+
+  const update: CartUpdate = {
+    items: Array.from(quantities, ([id, quantity]) => ({ id, quantity })),
+    currency
+  };
+
+  if (customer !== undefined) {
+    const { name, email } = (customer ?? {}) as { name?: unknown; email?: unknown };
+    const address = typeof email === 'string' ? email.trim() : email;
+    if (!isValidEmail(address)) {
+      return 'customer.email must be a valid email address';
+    }
+    update.customer = {
+      name: typeof name === 'string' && name.trim() ? name.trim().slice(0, 100) : undefined,
+      email: address
+    };
+  }
+
+  return update;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  if (!getConfig().carts.sync) {
+    return res.status(404).json({ success: false, sync: false, message: 'Cart sync is turned off' });
+  }
+
+  const id = String(req.query.id || '');
+  if (!CART_ID_PATTERN.test(id)) {
+    return res.status(400).json({ success: false, message: 'Invalid cart id' });
+  }
+
+  const carts = CartService.getInstance();
+
+  if (req.method === 'GET') {
+    const cart = carts.get(id);
+    if (!cart) {
+      return res.status(404).json({ success: false, message: 'Cart not found' });
+    }
+    return res.status(200).json({ success: true, cart: publicCart(cart) });
+  }
+
+  const update = parseUpdate(req.body ?? {});
+  if (typeof update === 'string') {
+    return res.status(400).json({ success: false, message: update });
+  }
+
+  const existing = carts.get(id);
+  if (update.customer && update.customer.email !== existing?.customer?.email && !carts.allowContact(clientIp(req) ?? 'unknown')) {
+    return res.status(429).json({ success: false, message: 'Too many email addresses saved; try again later' });
+  }
+
+  const { items, adjustments } = fitToStock(update.items, existing?.orderReference);
+  const cart = carts.save(id, { ...update, items });
+
+  return res.status(200).json({ success: true, cart: publicCart(cart), adjustments: cart.convertedAt ? [] : adjustments });
+}
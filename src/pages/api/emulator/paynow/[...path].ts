@@ -0,0 +1,96 @@
+/**
+ * API Endpoint: PayNow Gateway Emulator
+ * Serves PayNow's merchant endpoints locally when PAYNOW_EMULATOR=true
+ *
+ * Routes (relative to /api/emulator/paynow):
+ * - POST interface/initiatetransaction - web payment
+ * - POST interface/remotetransaction   - express (mobile) payment
+ * - POST interface/checkpayment?guid=  - poll URL
+ * - GET  payment?guid=                 - emulated web payment page
+ * - POST payment?guid=&action=         - pay or cancel from that page
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { PaynowEmulator } from '@/services/emulator';
+import { getConfig } from '@/services/config';
+import { readRawBody } from '@/utils/http';
+import { escapeHtml } from '@/utils/html';
+
+// Merchant requests are signed, so they are verified against the raw body
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+function emulatorBaseUrl(req: NextApiRequest): string {
+  const protocol = req.headers['x-forwarded-proto'] || 'http';
+  return `${protocol}://${req.headers.host}/api/emulator/paynow`;
+}
+
+// Reference and amount are whatever the merchant posted, so nothing is written out unescaped
+function renderPaymentPage(guid: string, reference: string, amount: string): string {
+  const action = escapeHtml(`payment?guid=${encodeURIComponent(guid)}`);
+  return `<!DOCTYPE html>
+<html>
+  <head><title>PayNow Emulator</title></head>
+  <body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto;">
+    <h1>PayNow Emulator</h1>
+    <p>Order <strong>${escapeHtml(reference)}</strong></p>
+    <p>Amount due: <strong>${escapeHtml(amount)}</strong></p>
+    <form method="post" action="${action}&amp;action=pay" style="display: inline;">
+      <button type="submit">Pay</button>
+    </form>
+    <form method="post" action="${action}&amp;action=cancel" style="display: inline;">
+      <button type="submit">Cancel</button>
+    </form>
+  </body>
+</html>`;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (!getConfig().emulator.enabled) {
+    return res.status(404).json({ message: 'Not found' });
+  }
+
+  const emulator = PaynowEmulator.getInstance();
+  const path = ([] as string[]).concat(req.query.path || []).join('/');
+  const guid = typeof req.query.guid === 'string' ? req.query.guid : '';
+  const baseUrl = emulatorBaseUrl(req);
+
+  if (path === 'payment') {
+    const transaction = emulator.getTransaction(guid);
+    if (!transaction) {
+      return res.status(404).send('Transaction not found');
+    }
+
+    if (req.method === 'GET') {
+      res.setHeader('Content-Type', 'text/html');
+      return res.status(200).send(renderPaymentPage(guid, transaction.reference, transaction.amount));
+    }
+
+    const outcome = req.query.action === 'pay' ? 'Paid' : 'Cancelled';
+    const returnUrl = emulator.completeWebPayment(guid, outcome) || '/';
+    return res.redirect(303, new URL(returnUrl, baseUrl).toString());
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const body = await readRawBody(req);
+  res.setHeader('Content-Type', 'application/x-www-form-urlencoded');
+
+  switch (path) {
+    case 'interface/initiatetransaction':
+      return res.status(200).send(emulator.initiateTransaction(body, baseUrl));
+    case 'interface/remotetransaction':
+      return res.status(200).send(emulator.initiateRemoteTransaction(body, baseUrl));
+    case 'interface/checkpayment':
+      return res.status(200).send(emulator.poll(guid));
+    default:
+      return res.status(404).send('status=Error&error=Unknown+endpoint');
+  }
+}
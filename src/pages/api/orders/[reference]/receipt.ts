@@ -0,0 +1,50 @@
+/**
+ * API Endpoint: Order Receipt
+ * Proof of payment for one paid order, looked up by its reference
+ *
+ * Formats:
+ * - HTML (default): branded, printable page
+ * - PDF (`?format=pdf` or Accept: application/pdf): downloaded as receipt-{reference}.pdf
+ *
+ * Orders that were never paid have no receipt (409).
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { wasPaid } from '@/services/lifecycle';
+import { renderReceiptHtml, renderReceiptPdf } from '@/services/receipts';
+import { toReceipt } from '@/utils/receipt';
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const reference = String(req.query.reference || '');
+  const order = OrderStore.getInstance().get(reference);
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+  if (!wasPaid(order.status)) {
+    return res.status(409).json({ success: false, message: `Order ${reference} has not been paid` });
+  }
+
+  const receipt = toReceipt(order);
+  const wantsPdf = req.query.format === 'pdf' ||
+    (req.query.format === undefined && (req.headers.accept || '').includes('application/pdf'));
+
+  // A refund or dispute changes what the receipt shows
+  res.setHeader('Cache-Control', 'private, no-cache');
+
+  if (wantsPdf) {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="receipt-${order.reference}.pdf"`);
+    return res.status(200).send(renderReceiptPdf(receipt));
+  }
+
+  const pdfUrl = `/api/orders/${encodeURIComponent(order.reference)}/receipt?format=pdf`;
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  return res.status(200).send(renderReceiptHtml(receipt, pdfUrl));
+}
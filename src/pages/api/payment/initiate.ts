@@ -1,17 +1,63 @@
 /**
  * API Endpoint: Payment Initiation
  * Handles creation of new payments through PayNow gateway
- * Supports both web payments (credit cards) and mobile money payments
+ * Supports web payments and every express method in the payment method registry
  * 
  * Flow:
  * 1. Validate request method
- * 2. Log payment attempt
- * 3. Route to appropriate payment method handler
- * 4. Return payment instructions or error
+ * 2. Price items from the catalog (client prices are ignored)
+ * 3. Check the chosen method's required fields, currency and limits
+ * 4. Refuse a second express prompt for a cart that already has one pending
+ * 5. Reserve stock under the order reference
+ * 6. Log payment attempt
+ * 7. Route to the chosen method's flow (web redirect or express)
+ * 8. Record the order against its payment reference, and the attempt on the shopper's server cart
+ * 9. Hand pending orders to the status poller
+ * 10. Return payment instructions or error
+ *
+ * Requests carrying an `Idempotency-Key` header are only processed once per key;
+ * repeats get the original response (or 409 while it is still being processed).
  */
 import type { NextApiRequest, NextApiResponse } from 'next';
 import { PaynowService } from '@/services/paynow';
-import { CartItem } from '@/types/types';  // Import the CartItem type
+import { OrderStore } from '@/services/orders';
+import { CatalogService, RequestedLine } from '@/services/catalog';
+import { InventoryService } from '@/services/inventory';
+import { PaymentPoller } from '@/services/poller';
+import { getPaymentMethod, validatePaymentDetails } from '@/services/paymentMethods';
+import { classifyFailure } from '@/services/failures';
+import { cartFingerprint, IdempotencyStore } from '@/services/idempotency';
+import { CART_ID_PATTERN, CartService } from '@/services/carts';
+import { isValidEmail } from '@/services/mail';
+import { toDecimalString } from '@/utils/money';
+import { BASE_CURRENCY, exchangeRate, isSupportedCurrency, unitPrice } from '@/utils/currency';
+import { Order } from '@/types/types';
+
+/**
+ * Pending express payment already prompted for the same cart and customer
+ */
+function findPendingPrompt(fingerprint: string): Order | undefined {
+  return OrderStore.getInstance().list().find(order =>
+    order.status === 'pending' &&
+    getPaymentMethod(order.method)?.flow === 'express' &&
+    cartFingerprint(order.items, order.amount.currency, order.customer) === fingerprint
+  );
+}
+
+/**
+ * Lines as sent by the client, reduced to what identifies the cart
+ * Repeated products are merged as priceItems merges them, so the key matches the order's lines.
+ */
+function requestedLines(items: unknown): RequestedLine[] {
+  if (!Array.isArray(items)) return [];
+
+  const quantities = new Map<number, number>();
+  items.forEach((line: Partial<RequestedLine>) => {
+    const id = Number(line?.id);
+    quantities.set(id, (quantities.get(id) || 0) + Number(line?.quantity));
+  });
+  return Array.from(quantities, ([id, quantity]) => ({ id, quantity }));
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -22,51 +68,192 @@ export default async function handler(
     return res.status(405).json({ message: 'Method not allowed' });
   }
 
+  const inventory = InventoryService.getInstance();
+  const idempotency = IdempotencyStore.getInstance();
+  let reference: string | undefined;
+  let idempotencyKey: string | undefined;
+  let sentToGateway = false;
+
+  // Final answers are kept for replay; server errors free the key so the attempt can be retried,
+  // unless PayNow was already asked for the payment, since a retry would then start a second one
+  const respond = (statusCode: number, body: object) => {
+    if (idempotencyKey) {
+      if (statusCode >= 500 && !sentToGateway) {
+        idempotency.release(idempotencyKey);
+      } else {
+        idempotency.complete(idempotencyKey, { statusCode, body });
+      }
+    }
+    return res.status(statusCode).json(body);
+  };
+
   try {
-    const { items, email, paymentMethod, phone } = req.body;
+    const { name, email, phone, token } = req.body;
+    const currency = req.body.currency ?? BASE_CURRENCY;
+    const cartId = typeof req.body.cartId === 'string' && CART_ID_PATTERN.test(req.body.cartId)
+      ? req.body.cartId
+      : undefined;
+
+    if (!isSupportedCurrency(currency)) {
+      return res.status(400).json({ success: false, message: `Unsupported currency: ${currency}` });
+    }
+
+    const method = getPaymentMethod(req.body.paymentMethod);
+    if (!method) {
+      return res.status(400).json({ success: false, message: `Unsupported payment method: ${req.body.paymentMethod}` });
+    }
+
+    // Receipts and notifications are mailed here, so it must be a single plain address
+    if (!isValidEmail(email)) {
+      return res.status(400).json({ success: false, message: 'A valid email address is required' });
+    }
+
+    const cartKey = cartFingerprint(requestedLines(req.body.items), currency, { email, phone });
+
+    const headerKey = req.headers['idempotency-key'];
+    if (typeof headerKey === 'string' && headerKey.trim()) {
+      const claim = idempotency.claim(headerKey.trim(), `${cartKey}:${method.id}`);
+
+      if (claim.state === 'mismatch') {
+        return res.status(422).json({
+          success: false,
+          message: 'Idempotency-Key was already used for a different payment'
+        });
+      }
+      if (claim.state === 'in_progress') {
+        return res.status(409).json({
+          success: false,
+          message: 'This payment is already being processed'
+        });
+      }
+      if (claim.state === 'completed') {
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(claim.response.statusCode).json(claim.response.body);
+      }
+      idempotencyKey = headerKey.trim();
+    }
+
+    // Resolve every line against the catalog before anything is sent to PayNow
+    const pricing = CatalogService.priceItems(
+      req.body.items,
+      currency,
+      product => inventory.available(product.id)
+    );
+    if (!pricing.valid) {
+      return respond(422, {
+        success: false,
+        message: 'Some items in your cart need attention',
+        errors: pricing.errors
+      });
+    }
+    const { items, total: amount } = pricing;
+
+    // Required fields, currency support and amount limits come from the registry
+    const fieldErrors = validatePaymentDetails(method, { phone, token }, amount);
+    if (Object.keys(fieldErrors).length > 0) {
+      return respond(400, {
+        success: false,
+        message: Object.values(fieldErrors)[0],
+        fieldErrors
+      });
+    }
+
+    // One prompt at a time: a second would leave the shopper approving two payments
+    if (method.flow === 'express') {
+      const pending = findPendingPrompt(cartKey);
+      if (pending) {
+        return respond(409, {
+          success: false,
+          message: 'A payment request for this cart is already waiting for approval',
+          reference: pending.reference
+        });
+      }
+    }
+
+    // Charged through the integration registered for this currency
+    const paynowService = new PaynowService(currency);
+    reference = paynowService.generateReference();
+
+    // Hold the stock before the customer is asked to pay for it
+    const stockErrors = inventory.reserve(reference, items);
+    if (stockErrors.length > 0) {
+      return respond(422, {
+        success: false,
+        message: 'Some items in your cart need attention',
+        errors: stockErrors
+      });
+    }
     
     // Diagnostic logging for transaction monitoring
     console.log('Payment initiation request:', {
       email,
-      paymentMethod,
+      paymentMethod: method.id,
       itemCount: items.length,
-      total: items.reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0)
+      currency,
+      total: toDecimalString(amount)
     });
 
-    const paynowService = new PaynowService();
-
-    let response;
-    if (paymentMethod === 'web') {
-      // Web payments (credit cards/bank transfers)
-      response = await paynowService.initiateWebPayment(items, email);
-    } else {
-      // Mobile money payments (EcoCash/OneMoney)
-      if (!phone) throw new Error('Phone number required for mobile payments');
-      response = await paynowService.initiateMobilePayment(
-        items,
-        email,
-        phone,
-        'ecocash' // Supported methods: 'ecocash' | 'onemoney'
-      );
-    }
+    sentToGateway = true;
+    const response = method.flow === 'web'
+      // Customer is redirected to PayNow to choose how to pay
+      ? await paynowService.initiateWebPayment(reference, items, email)
+      // Payment is requested with the method the shopper picked
+      : await paynowService.initiateExpressPayment(reference, items, email, method, { phone, token });
 
     // Log raw response for debugging purposes
     console.log('PayNow response:', response);
+
+    // Record the attempt so the reference can be traced later, even if it failed
+    OrderStore.getInstance().create({
+      reference,
+      customer: { name, email, phone },
+      items: items.map(item => ({
+        id: item.id,
+        name: item.name,
+        price: unitPrice(item, currency),
+        quantity: item.quantity
+      })),
+      amount,
+      exchangeRate: exchangeRate(currency),
+      method: method.id,
+      status: response.success ? 'pending' : 'failed',
+      cartId,
+      pollUrl: response.pollUrl,
+      redirectUrl: response.redirectUrl,
+      gatewayResponses: response.gatewayResponse
+        ? [{ at: new Date().toISOString(), source: 'initiate', fields: response.gatewayResponse }]
+        : []
+    }, { message: response.error });
+
+    if (cartId) {
+      CartService.getInstance().recordCheckout(cartId, reference, { name, email });
+    }
     
     if (!response.success) {
-      return res.status(400).json({
+      inventory.release(reference);
+      return respond(400, {
         success: false,
-        message: response.error || 'Payment initiation failed'
+        message: response.error || 'Payment initiation failed',
+        reason: classifyFailure('failed', response.error),
+        reference
       });
     }
 
-    return res.status(200).json(response);
+    // Followed server-side, so the outcome is recorded even if the customer leaves
+    PaymentPoller.getInstance().track(reference);
+
+    // The raw gateway reply stays on the order; the shopper only needs the outcome
+    const { success, redirectUrl, pollUrl, instructions, status } = response;
+    return respond(200, { success, redirectUrl, pollUrl, instructions, status, reference });
 
   } catch (error) {
     console.error('Payment initiation error:', error);
-    return res.status(500).json({ 
+    // Once PayNow has the payment the customer may still complete it, so the stock stays held
+    if (reference && !sentToGateway) inventory.release(reference);
+    return respond(500, {
       success: false,
-      message: error instanceof Error ? error.message : 'Internal server error'
+      message: error instanceof Error ? error.message : 'Internal server error',
+      ...(sentToGateway ? { reference } : {})
     });
   }
 } 
\ No newline at end of file
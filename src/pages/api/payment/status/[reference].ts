@@ -0,0 +1,141 @@
+/**
+ * API Endpoint: Payment Status Stream
+ * Live status of one order, looked up server-side by its reference
+ *
+ * Modes:
+ * - Server-Sent Events (Accept: text/event-stream): a `status` event now and
+ *   on every transition; the stream ends once the order settles
+ * - Long-poll fallback (JSON): `?since=pending` waits until the status differs
+ *   from `since` or LONG_POLL_TIMEOUT_MS passes, then returns the current status
+ */
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { OrderStore } from '@/services/orders';
+import { isSettled, PaymentStatus } from '@/services/lifecycle';
+import { failureReasonOf } from '@/services/failures';
+import { pollDeadline } from '@/services/poller';
+import { Order, PaymentStatusSnapshot } from '@/types/types';
+
+// Responses are written from listeners after the handler returns
+export const config = {
+  api: {
+    externalResolver: true
+  }
+};
+
+const HEARTBEAT_MS = 15 * 1000;
+const LONG_POLL_TIMEOUT_MS = 25 * 1000;
+
+function snapshot(order: Order): PaymentStatusSnapshot {
+  return {
+    reference: order.reference,
+    status: order.status,
+    success: order.status === 'paid',
+    message: order.history[order.history.length - 1]?.message,
+    reason: failureReasonOf(order),
+    deadline: new Date(pollDeadline(order)).toISOString()
+  };
+}
+
+/**
+ * Stream status events until the order settles or the client disconnects
+ */
+function streamStatus(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  order: Order
+) {
+  const orders = OrderStore.getInstance();
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Stops compression and proxies from buffering the stream
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no'
+  });
+
+  let lastStatus: PaymentStatus | undefined;
+  let closed = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+
+  const send = (current: Order) => {
+    if (closed || current.status === lastStatus) return;
+    lastStatus = current.status;
+    res.write(`event: status\ndata: ${JSON.stringify(snapshot(current))}\n\n`);
+    if (isSettled(current.status)) close();
+  };
+
+  const unsubscribe = orders.subscribe(order.reference, send);
+
+  // Keeps the connection open and catches changes written by another process
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+    const current = orders.get(order.reference);
+    if (current) send(current);
+  }, HEARTBEAT_MS);
+
+  req.on('close', close);
+  send(order);
+}
+
+/**
+ * Answer once the status differs from the one the client already has
+ */
+function longPollStatus(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  order: Order
+) {
+  const since = req.query.since;
+  if (typeof since !== 'string' || since !== order.status) {
+    return res.status(200).json(snapshot(order));
+  }
+
+  const orders = OrderStore.getInstance();
+  let answered = false;
+
+  const answer = (current: Order) => {
+    if (answered) return;
+    answered = true;
+    clearTimeout(timer);
+    unsubscribe();
+    res.status(200).json(snapshot(current));
+  };
+
+  const unsubscribe = orders.subscribe(order.reference, answer);
+  const timer = setTimeout(() => answer(orders.get(order.reference) || order), LONG_POLL_TIMEOUT_MS);
+
+  req.on('close', () => {
+    answered = true;
+    clearTimeout(timer);
+    unsubscribe();
+  });
+}
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const reference = String(req.query.reference || '');
+  const order = OrderStore.getInstance().get(reference);
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+
+  if ((req.headers.accept || '').includes('text/event-stream')) {
+    return streamStatus(req, res, order);
+  }
+  return longPollStatus(req, res, order);
+}
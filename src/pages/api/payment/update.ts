@@ -2,12 +2,110 @@
  * Payment Update Webhook
  * Receives payment status updates from PayNow
  * Handles:
- * - Payment verification
- * - Order status updates
- * - Receipt generation
+ * - Result URL callbacks (URL-encoded, hash verified)
+ * - Replay and tamper protection
+ * - Recording every status change on the order
  */
 import type { NextApiRequest, NextApiResponse } from 'next';
-import { PaynowService } from '@/services/paynow';
+import { PaynowService, PaymentStatusUpdate } from '@/services/paynow';
+import { OrderStore } from '@/services/orders';
+import { canTransition } from '@/services/lifecycle';
+import { netAmount, RefundError } from '@/services/refunds';
+import { readRawBody } from '@/utils/http';
+import { equalsMoney, formatMoney, parseMoney } from '@/utils/money';
+
+// The raw body is needed to verify the PayNow hash in the order it was signed
+export const config = {
+  api: {
+    bodyParser: false
+  }
+};
+
+/**
+ * Handle a server-to-server status update posted by PayNow
+ */
+async function handleResultCallback(
+  body: string,
+  res: NextApiResponse
+) {
+  // The order decides which currency integration's key the post must be signed with
+  const orders = OrderStore.getInstance();
+  const claimedReference = new URLSearchParams(body).get('reference') || '';
+  const order = orders.get(claimedReference);
+  if (!order) {
+    console.warn('PayNow status update for unknown order:', claimedReference);
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+
+  const paynowService = new PaynowService(order.amount.currency);
+
+  let update: PaymentStatusUpdate;
+  try {
+    update = paynowService.parseStatusUpdate(body);
+  } catch (error) {
+    console.warn('Rejected PayNow status update:', error);
+    return res.status(403).json({ success: false, message: 'Invalid status update' });
+  }
+
+  // Same signed payload delivered again - acknowledge without reapplying
+  if (order.history.some(change => change.hash === update.hash)) {
+    return res.status(200).json({ success: true, status: order.status, duplicate: true });
+  }
+
+  // Verified, so worth keeping even if it is rejected below
+  orders.recordGatewayResponse(order.reference, 'callback', Object.fromEntries(new URLSearchParams(body)));
+
+  // Signed for a different amount than we asked for
+  if (update.amount && !equalsMoney(parseMoney(update.amount, order.amount.currency), order.amount)) {
+    console.warn('Rejected PayNow status update with mismatched amount:', {
+      reference: order.reference,
+      expected: formatMoney(order.amount),
+      received: update.amount
+    });
+    return res.status(400).json({ success: false, message: 'Amount does not match order' });
+  }
+
+  // Replayed or out-of-order posts cannot move the order backwards (e.g. paid -> pending)
+  if (!canTransition(order.status, update.status)) {
+    console.warn('Rejected stale PayNow status update:', {
+      reference: order.reference,
+      current: order.status,
+      received: update.gatewayStatus
+    });
+    return res.status(409).json({ success: false, message: `Payment is already ${order.status}` });
+  }
+
+  orders.update(order.reference, {
+    paynowReference: update.paynowReference,
+    pollUrl: update.pollUrl || order.pollUrl
+  });
+
+  // Nothing new to apply, e.g. PayNow confirming a refund staff already recorded in full
+  if (update.status === order.status) {
+    return res.status(200).json({ success: true, status: order.status, duplicate: true });
+  }
+
+  const change = { source: 'callback' as const, gatewayStatus: update.gatewayStatus, hash: update.hash };
+
+  // Refunded from the PayNow dashboard: recorded on the ledger like a staff refund so net
+  // totals stay right. Nothing says any units came back, so none are restocked.
+  const updated = update.status === 'refunded'
+    ? orders.recordRefund(order.reference, {
+        amount: netAmount(order),
+        reason: 'Refunded through PayNow',
+        externalReference: update.paynowReference || order.reference,
+        items: []
+      }, 'paynow', change).order
+    : orders.recordStatus(order.reference, { ...change, status: update.status });
+
+  console.log('PayNow status update:', {
+    reference: updated.reference,
+    paynowReference: update.paynowReference,
+    status: update.gatewayStatus
+  });
+
+  return res.status(200).json({ success: true, status: updated.status });
+}
 
 export default async function handler(
   req: NextApiRequest,
@@ -18,29 +116,27 @@ export default async function handler(
   }
 
   try {
-    const { pollUrl, phone, startTime } = req.body;
-    
-    const paynowService = new PaynowService();
-    const paymentStatus = await paynowService.checkPaymentStatus(pollUrl, phone, startTime);
-
-    // Always return the full status
-    return res.status(200).json({
-      success: paymentStatus.paid,
-      status: paymentStatus.status,
-      message: paymentStatus.error
-    });
+    // Clients follow order status through /api/payment/status/[reference]
+    const contentType = req.headers['content-type'] || '';
+    if (!contentType.includes('application/x-www-form-urlencoded')) {
+      return res.status(415).json({ success: false, message: 'Expected a PayNow status update' });
+    }
+
+    const body = await readRawBody(req);
+    return await handleResultCallback(body, res);
 
   } catch (error) {
+    // The refund no longer fits the order, e.g. staff refunded part of it in the meantime
+    if (error instanceof RefundError) {
+      console.warn('Rejected PayNow refund:', error.problems);
+      return res.status(409).json({ success: false, message: error.message });
+    }
+
     console.error('Payment update error:', error);
-    return res.status(500).json({ 
-      success: false, 
+    return res.status(500).json({
+      success: false,
       status: 'failed',
       message: error instanceof Error ? error.message : 'Payment check failed'
     });
   }
 }
-
-// In a real app, you would:
-    // 1. Verify the hash from PayNow
-    // 2. Update order status in database
-    // 3. Send confirmation email to customer
\ No newline at end of file
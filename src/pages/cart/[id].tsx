@@ -0,0 +1,52 @@
+/**
+ * Cart Recovery Page
+ * Landing page for the link in the abandoned cart email
+ * Features:
+ * - Restores the saved cart into this browser, priced from today's catalog
+ * - Continues syncing under the same cart id, so the email is not sent twice
+ * - Goes straight to checkout; unknown or paid carts go to the shop instead
+ */
+import { useEffect } from 'react';
+import type { GetServerSideProps } from 'next';
+import { useRouter } from 'next/router';
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+import { CART_ID_PATTERN, CartService, cartItemsOf } from '@/services/carts';
+import { CartItem, Currency } from '@/types/types';
+import { useCartStore } from '@/utils/cart';
+
+interface CartRecoveryProps {
+  cartId: string;
+  items: CartItem[];
+  currency: Currency;
+}
+
+export const getServerSideProps: GetServerSideProps<CartRecoveryProps> = async ({ params }) => {
+  const id = String(params?.id || '');
+  const cart = CART_ID_PATTERN.test(id) ? CartService.getInstance().get(id) : undefined;
+  const items = cart ? cartItemsOf(cart) : [];
+
+  if (!cart || cart.convertedAt || items.length === 0) {
+    return { redirect: { destination: '/', permanent: false } };
+  }
+
+  return { props: { cartId: cart.id, items, currency: cart.currency } };
+};
+
+export default function CartRecovery({ cartId, items, currency }: CartRecoveryProps) {
+  const router = useRouter();
+  const restoreCart = useCartStore(state => state.restoreCart);
+
+  useEffect(() => {
+    restoreCart(items, currency, cartId);
+    router.replace('/checkout');
+  }, [cartId, items, currency, restoreCart, router]);
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center">
+      <div className="text-center">
+        <ArrowPathIcon className="h-12 w-12 text-blue-500 mx-auto animate-spin" />
+        <p className="mt-4 text-dark-300">Restoring your cart...</p>
+      </div>
+    </div>
+  );
+}
@@ -1,18 +1,35 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useRouter } from 'next/router';
+import type { GetServerSideProps } from 'next';
 import { useCartStore } from '@/utils/cart';
+import { checkCartStock, saveCartContact } from '@/utils/cartSync';
 import { ArrowLeftIcon, InformationCircleIcon } from '@heroicons/react/24/outline';
-import { PaynowService, PAYNOW_TEST_NUMBERS } from '@/services/paynow';
 import toast from 'react-hot-toast';
+import { isSettled } from '@/services/lifecycle';
+import { FailureReason } from '@/services/failures';
+import { subscribeToPaymentStatus } from '@/utils/paymentStatus';
+import {
+  getPaymentMethod,
+  methodsForCurrency,
+  PaymentMethod,
+  PaymentMethodId,
+  PAYNOW_TEST_NUMBERS,
+  validatePaymentDetails
+} from '@/services/paymentMethods';
+import { formatMoney } from '@/utils/money';
+import { BASE_CURRENCY, exchangeRate, lineTotal } from '@/utils/currency';
+import CurrencySelector from '@/components/CurrencySelector';
+import CartNotices from '@/components/CartNotices';
 
 interface FormErrors {
   name?: string;
   email?: string;
   phone?: string;
+  token?: string;
 }
 
-// Define payment method types
-type PaymentMethod = 'web' | 'ecocash' | 'onemoney';
+// Per-line problems reported by the server, keyed by product id
+type LineErrors = Record<number, string>;
 
 interface PaymentStatus {
   status: 'idle' | 'pending' | 'success' | 'error';
@@ -20,6 +37,28 @@ interface PaymentStatus {
   countdown?: number;
 }
 
+/**
+ * Key identifying one checkout attempt, so retries of it are never charged twice
+ */
+function newIdempotencyKey(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Failure page for an order, carrying the reason code when one is known
+ */
+function failedPageUrl(reference: string, reason?: FailureReason): string {
+  const params = new URLSearchParams({ reference });
+  if (reason) params.set('reason', reason);
+  return `/payment/failed?${params}`;
+}
+
+interface CheckoutProps {
+  initialMethod: PaymentMethodId; // Preselected by `?method=`, e.g. when retrying a failed payment
+}
+
 /**
  * Checkout Page
  * Handles the final payment details collection and payment initiation
@@ -28,40 +67,43 @@ interface PaymentStatus {
  * - Form validation
  * - Test mode indicators
  * - Payment gateway redirection
+ * - Failure page routing for declined payments
+ * - Cart lines checked against current stock on arrival
  */
-export default function Checkout() {
+export default function Checkout({ initialMethod }: CheckoutProps) {
   const router = useRouter();
-  const { items, total, clearCart } = useCartStore();
+  const { items, total, currency, cartId, clearCart } = useCartStore();
   const [isProcessing, setIsProcessing] = useState(false);
   const [errors, setErrors] = useState<FormErrors>({});
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('web');
+  const [lineErrors, setLineErrors] = useState<LineErrors>({});
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethodId>(initialMethod);
   const [formData, setFormData] = useState({
     name: '',
-    email: process.env.NEXT_PUBLIC_PAYNOW_MERCHANT_EMAIL || '',
-    phone: ''
+    email: '',
+    phone: '',
+    token: ''
   });
+
+  // Methods come from the registry, limited to those that accept the cart's currency
+  const availableMethods = methodsForCurrency(currency);
+  const selectedMethod = getPaymentMethod(paymentMethod) as PaymentMethod;
+  const requiresPhone = selectedMethod.requiredFields.includes('phone');
   const [mobilePaymentStatus, setMobilePaymentStatus] = useState<PaymentStatus>({
     status: 'idle',
     message: ''
   });
 
-  const [pollCount, setPollCount] = useState(0);
-  const MAX_POLLS = 12; // 1 minute (12 * 5 seconds)
-
-  // Get test numbers from constants
-  const testNumbers = {
-    ecocash: PAYNOW_TEST_NUMBERS.SUCCESS,    // Default to success scenario
-    onemoney: PAYNOW_TEST_NUMBERS.SUCCESS    // Default to success scenario
-  };
+  const [paymentDeadline, setPaymentDeadline] = useState<number | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
+  const idempotencyKeyRef = useRef<string>('');
 
   // Add test scenario selection
   const [testScenario, setTestScenario] = useState<keyof typeof PAYNOW_TEST_NUMBERS>('SUCCESS');
 
-  const [pollData, setPollData] = useState<{
-    url: string;
-    phone?: string;
-    startTime: number;
-  } | null>(null);
+  // Stock may have changed since the items were added
+  useEffect(() => {
+    checkCartStock();
+  }, []);
 
   // Redirect if cart is empty
   useEffect(() => {
@@ -82,13 +124,20 @@ export default function Checkout() {
       newErrors.name = 'Name is required';
     }
 
-    // Phone required for mobile payments
-    if (paymentMethod !== 'web' && !formData.phone.trim()) {
-      newErrors.phone = 'Phone number required for mobile payments';
+    // Receipts are sent here; the server checks the address more strictly
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = 'Enter a valid email address';
+    }
+
+    // Required fields, currency and limits for the chosen method (checked again by the server)
+    const { amount, ...fieldErrors } = validatePaymentDetails(selectedMethod, formData, total);
+    Object.assign(newErrors, fieldErrors);
+    if (amount) {
+      toast.error(amount);
     }
 
     setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
+    return Object.keys(newErrors).length === 0 && !amount;
   };
 
   /**
@@ -104,6 +153,16 @@ export default function Checkout() {
     }
   };
 
+  /**
+   * Saves the shopper's email with the cart once their details are filled in,
+   * so an abandoned checkout can be followed up
+   */
+  const saveContact = () => {
+    if (formData.email.trim()) {
+      saveCartContact(formData.name.trim(), formData.email.trim());
+    }
+  };
+
   /**
    * Handles payment form submission
    * @param e - Form submission event
@@ -119,41 +178,79 @@ export default function Checkout() {
         return;
       }
 
+      // Kept until the server answers, so a retry after a network error replays the same attempt
+      idempotencyKeyRef.current ||= newIdempotencyKey();
+
       const response = await fetch('/api/payment/initiate', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          'Idempotency-Key': idempotencyKeyRef.current
+        },
         body: JSON.stringify({
-          items,
-          email: formData.email,
+          // Prices are resolved by the server from the catalog
+          items: items.map(({ id, quantity }) => ({ id, quantity })),
+          name: formData.name,
+          email: formData.email.trim(),
           phone: formData.phone,
+          token: selectedMethod.requiredFields.includes('token') ? formData.token : undefined,
           paymentMethod,
+          currency,
+          cartId,
           testScenario
         })
       });
 
       const data = await response.json();
 
+      // The server has answered this attempt, so the next submit is a new one.
+      // A 409 without a reference means the first request is still being processed.
+      if (response.status !== 409 || data.reference) {
+        idempotencyKeyRef.current = '';
+      }
+
+      // This cart already has a prompt waiting on the shopper's phone - follow that one
+      if (response.status === 409 && data.reference) {
+        toast(data.message);
+        setMobilePaymentStatus({ status: 'pending', message: data.message });
+        watchPayment(data.reference);
+        return;
+      }
+
+      // Cart lines rejected by the server (unknown product, bad quantity, out of stock)
+      if (response.status === 422 && Array.isArray(data.errors)) {
+        const nextLineErrors: LineErrors = {};
+        data.errors.forEach((lineError: { id: number | null; message: string }) => {
+          if (lineError.id !== null) nextLineErrors[lineError.id] = lineError.message;
+        });
+        setLineErrors(nextLineErrors);
+        // Trim the cart to what is available now
+        checkCartStock();
+      }
+
+      // PayNow turned the payment down; the order was recorded, so explain it on the failure page
+      if (response.status === 400 && data.reference) {
+        toast.error(data.message || 'Payment failed');
+        router.push(failedPageUrl(data.reference, data.reason));
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.message || 'Payment failed');
       }
 
-      if (paymentMethod === 'web' && data.redirectUrl) {
+      setLineErrors({});
+
+      if (selectedMethod.flow === 'web' && data.redirectUrl) {
         window.location.href = data.redirectUrl;
       } else {
         setMobilePaymentStatus({
           status: 'pending',
           message: data.instructions || 'Please check your phone to authorize payment'
         });
-        
-        // Initialize poll data
-        setPollData({
-          url: data.pollUrl,
-          phone: formData.phone,
-          startTime: Date.now()
-        });
-        
-        // Start polling with phone number
-        startPolling(data.pollUrl, formData.phone);
+
+        // The server follows the payment; the page only watches the order
+        watchPayment(data.reference);
       }
 
     } catch (error) {
@@ -167,91 +264,83 @@ export default function Checkout() {
     }
   };
 
-  const startPolling = async (pollUrl: string, phone?: string) => {
-    try {
-      // Use existing poll data if available
-      const currentPollData = pollData || {
-        url: pollUrl,
-        phone,
-        startTime: Date.now()
-      };
-
-      const response = await fetch('/api/payment/update', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          pollUrl: currentPollData.url,
-          phone: currentPollData.phone,
-          startTime: currentPollData.startTime
-        })
-      });
-
-      const data = await response.json();
-      console.log('Poll response:', data);
-
-      // Calculate elapsed time
-      const elapsedTime = Math.floor((Date.now() - currentPollData.startTime) / 1000);
-      const remainingTime = 60 - elapsedTime;
-
-      if (data.status === 'pending') {
-        setMobilePaymentStatus({
-          status: 'pending',
-          message: 'Processing payment...',
-          countdown: remainingTime > 0 ? remainingTime : 0
-        });
-        
-        if (remainingTime > 0) {
-          setTimeout(() => startPolling(pollUrl), 5000);
+  /**
+   * Subscribes to the order until the server records its outcome
+   * Leaving the page does not affect the payment; it is still followed server-side
+   */
+  const watchPayment = (reference: string) => {
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = subscribeToPaymentStatus(
+      reference,
+      snapshot => {
+        if (!isSettled(snapshot.status)) {
+          setPaymentDeadline(new Date(snapshot.deadline).getTime());
+          setMobilePaymentStatus(prev => ({ ...prev, status: 'pending', message: 'Processing payment...' }));
+        } else if (snapshot.status === 'paid') {
+          setPaymentDeadline(null);
+          toast.success('Payment successful!');
+          setMobilePaymentStatus({
+            status: 'success',
+            message: 'Payment completed successfully'
+          });
+          setTimeout(() => router.push(`/payment/success?reference=${encodeURIComponent(reference)}`), 2000);
         } else {
-          toast.error('Payment timed out');
+          setPaymentDeadline(null);
+          toast.error(snapshot.message || 'Payment failed');
           setMobilePaymentStatus({
             status: 'error',
-            message: 'Payment timed out after 1 minute'
+            message: snapshot.message || 'Payment failed'
           });
+          setTimeout(() => router.push(failedPageUrl(reference, snapshot.reason)), 2000);
         }
-      } else if (data.status === 'paid') {
-        toast.success('Payment successful!');
-        setMobilePaymentStatus({
-          status: 'success',
-          message: 'Payment completed successfully'
-        });
-        setTimeout(() => router.push('/payment/success'), 2000);
-      } else {
-        toast.error(data.message || 'Payment failed');
+      },
+      () => {
+        toast.error('Failed to check payment status');
         setMobilePaymentStatus({
           status: 'error',
-          message: data.message || 'Payment failed'
+          message: 'Failed to check payment status'
         });
       }
-    } catch (error) {
-      toast.error('Failed to check payment status');
-      setMobilePaymentStatus({
-        status: 'error',
-        message: 'Failed to check payment status'
-      });
-    }
+    );
   };
 
+  // Close the status subscription when leaving the page
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+
+  /**
+   * Counts down to the server's deadline, after which the order is timed out
+   */
+  useEffect(() => {
+    if (paymentDeadline === null) return;
+
+    const tick = () => {
+      const countdown = Math.max(0, Math.ceil((paymentDeadline - Date.now()) / 1000));
+      setMobilePaymentStatus(prev => (prev.status === 'pending' ? { ...prev, countdown } : prev));
+    };
+    tick();
+
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [paymentDeadline]);
+
   /**
-   * Updates phone number when payment method changes
+   * Falls back to web payment when the chosen method does not accept the cart's currency
    */
   useEffect(() => {
-    if (paymentMethod === 'ecocash') {
-      setFormData(prev => ({ ...prev, phone: testNumbers.ecocash }));
-    } else if (paymentMethod === 'onemoney') {
-      setFormData(prev => ({ ...prev, phone: testNumbers.onemoney }));
+    if (!methodsForCurrency(currency).some(method => method.id === paymentMethod)) {
+      setPaymentMethod('web');
     }
-  }, [paymentMethod]);
+  }, [currency, paymentMethod]);
 
-  // Update phone number when test scenario changes
+  // Use the test number for the selected scenario whenever a phone is needed
   useEffect(() => {
-    if (paymentMethod !== 'web') {
+    if (requiresPhone) {
       setFormData(prev => ({ 
         ...prev, 
         phone: PAYNOW_TEST_NUMBERS[testScenario] 
       }));
     }
-  }, [paymentMethod, testScenario]);
+  }, [requiresPhone, testScenario]);
 
   /**
    * Test Mode Information Component
@@ -264,7 +353,7 @@ export default function Checkout() {
         <span className="font-medium">Test Mode Guide</span>
       </div>
       <div className="mt-2 text-sm text-blue-400 space-y-1">
-        <p>• Only merchant email can complete test transactions</p>
+        <p>• PayNow is asked to authorise test transactions with the merchant email</p>
         <p>• Test scenarios simulate different payment outcomes</p>
         <p>• No actual money is moved during testing</p>
       </div>
@@ -285,7 +374,6 @@ export default function Checkout() {
     <div className="mb-4">
       <label className="block text-sm text-dark-300 mb-2">
         Test Scenario
-        <span className="ml-2 text-xs text-blue-400">(Quick Success and Insufficient Balance enabled)</span>
       </label>
       <select
         value={scenario}
@@ -294,16 +382,16 @@ export default function Checkout() {
       >
         <option value="SUCCESS">Quick Success (5s)</option>
         <option value="INSUFFICIENT">Insufficient Balance</option>
-        <option value="DELAYED" disabled>Delayed Success (30s) - Currently Unhandled</option>
-        <option value="CANCELLED" disabled>User Cancelled (30s) - Currently Unhandled</option>
+        <option value="DELAYED">Delayed Success (30s)</option>
+        <option value="CANCELLED">User Cancelled (30s)</option>
       </select>
       <p className="mt-2 text-sm text-dark-400">
         Using test number: {PAYNOW_TEST_NUMBERS[scenario]}
         <br />
         {scenario === 'SUCCESS' && '✓ Payment will succeed after 5 seconds'}
         {scenario === 'INSUFFICIENT' && '⚠ Will simulate insufficient funds error'}
-        {scenario === 'DELAYED' && '⏳ Currently Unhandled - 30-second delay simulation'}
-        {scenario === 'CANCELLED' && '✕ Currently Unhandled - User cancellation simulation'}
+        {scenario === 'DELAYED' && '⏳ Payment will succeed after 30 seconds'}
+        {scenario === 'CANCELLED' && '✕ Customer will cancel after 30 seconds'}
       </p>
     </div>
   );
@@ -335,44 +423,27 @@ export default function Checkout() {
                   Payment Method
                 </h2>
                 <div className="grid grid-cols-3 gap-4">
-                  <button
-                    type="button"
-                    onClick={() => setPaymentMethod('web')}
-                    className={`flex items-center justify-center px-4 py-3 rounded-xl border-2 transition-all ${
-                      paymentMethod === 'web'
-                        ? 'border-blue-500 bg-blue-500/10 text-white'
-                        : 'border-dark-700 text-dark-400 hover:border-dark-600'
-                    }`}
-                  >
-                    Card Payment
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setPaymentMethod('ecocash')}
-                    className={`flex items-center justify-center px-4 py-3 rounded-xl border-2 transition-all ${
-                      paymentMethod === 'ecocash'
-                        ? 'border-blue-500 bg-blue-500/10 text-white'
-                        : 'border-dark-700 text-dark-400 hover:border-dark-600'
-                    }`}
-                  >
-                    EcoCash
-                  </button>
-                  <button
-                    type="button"
-                    onClick={() => setPaymentMethod('onemoney')}
-                    className={`flex items-center justify-center px-4 py-3 rounded-xl border-2 transition-all ${
-                      paymentMethod === 'onemoney'
-                        ? 'border-blue-500 bg-blue-500/10 text-white'
-                        : 'border-dark-700 text-dark-400 hover:border-dark-600'
-                    }`}
-                  >
-                    OneMoney
-                  </button>
+                  {availableMethods.map(method => (
+                    <button
+                      key={method.id}
+                      type="button"
+                      title={method.description}
+                      onClick={() => setPaymentMethod(method.id)}
+                      className={`flex items-center justify-center px-4 py-3 rounded-xl border-2 transition-all ${
+                        paymentMethod === method.id
+                          ? 'border-blue-500 bg-blue-500/10 text-white'
+                          : 'border-dark-700 text-dark-400 hover:border-dark-600'
+                      }`}
+                    >
+                      {method.label}
+                    </button>
+                  ))}
                 </div>
+                <p className="mt-3 text-sm text-dark-400">{selectedMethod.description}</p>
               </div>
 
               {/* Test Scenario Selector - Only for mobile payments in development */}
-              {process.env.NODE_ENV === 'development' && paymentMethod !== 'web' && (
+              {process.env.NODE_ENV === 'development' && requiresPhone && (
                 <TestScenarioSelector 
                   scenario={testScenario}
                   onChange={setTestScenario}
@@ -391,16 +462,26 @@ export default function Checkout() {
                       type="email"
                       id="email"
                       value={formData.email}
-                      readOnly
-                      className="w-full bg-dark-700/50 border border-dark-600 rounded-xl px-4 py-3 text-white"
+                      onChange={handleInputChange}
+                      onBlur={saveContact}
+                      className={`w-full bg-dark-700/50 border rounded-xl px-4 py-3 text-white ${
+                        errors.email ? 'border-red-500' : 'border-dark-600'
+                      }`}
                     />
+                    {errors.email ? (
+                      <p className="mt-1 text-sm text-red-500">{errors.email}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-dark-400">
+                        If you leave before paying, we may email you a link back to your cart.
+                      </p>
+                    )}
                   </div>
 
                   {/* Phone Field */}
                   <div>
                     <label htmlFor="phone" className="block text-sm font-medium text-dark-300 mb-2">
                       Phone Number
-                      {paymentMethod !== 'web' && (
+                      {requiresPhone && (
                         <span className="ml-2 text-xs text-blue-400">
                           (Test Mode)
                         </span>
@@ -421,6 +502,27 @@ export default function Checkout() {
                   </div>
                 </div>
 
+                {/* Card Token Field - Only for methods that charge a saved card */}
+                {selectedMethod.requiredFields.includes('token') && (
+                  <div>
+                    <label htmlFor="token" className="block text-sm font-medium text-dark-300 mb-2">
+                      Card Token
+                    </label>
+                    <input
+                      type="text"
+                      id="token"
+                      value={formData.token}
+                      onChange={handleInputChange}
+                      className={`w-full bg-dark-700/50 border rounded-xl px-4 py-3 text-white ${
+                        errors.token ? 'border-red-500' : 'border-dark-600'
+                      }`}
+                    />
+                    {errors.token && (
+                      <p className="mt-1 text-sm text-red-500">{errors.token}</p>
+                    )}
+                  </div>
+                )}
+
                 {/* Full Name Field */}
                 <div>
                   <label htmlFor="name" className="block text-sm font-medium text-dark-300 mb-2">
@@ -431,6 +533,7 @@ export default function Checkout() {
                     id="name"
                     value={formData.name}
                     onChange={handleInputChange}
+                    onBlur={saveContact}
                     className={`w-full bg-dark-700/50 border rounded-xl px-4 py-3 text-white ${
                       errors.name ? 'border-red-500' : 'border-dark-600'
                     }`}
@@ -442,14 +545,28 @@ export default function Checkout() {
 
                 {/* Order Summary for Mobile */}
                 <div className="lg:hidden">
+                  {items.filter(item => lineErrors[item.id]).map(item => (
+                    <p key={item.id} className="mb-2 text-sm text-red-500">
+                      {item.name}: {lineErrors[item.id]}
+                    </p>
+                  ))}
                   <div className="border-t border-dark-700 pt-4 space-y-4">
+                    <div className="flex justify-between items-center text-dark-300">
+                      <span>Currency</span>
+                      <CurrencySelector />
+                    </div>
+                    {currency !== BASE_CURRENCY && (
+                      <p className="text-sm text-dark-400">
+                        Rate: 1 {BASE_CURRENCY} = {exchangeRate(currency)} {currency}
+                      </p>
+                    )}
                     <div className="flex justify-between text-dark-300">
                       <span>Subtotal</span>
-                      <span>${total.toFixed(2)}</span>
+                      <span>{formatMoney(total)}</span>
                     </div>
                     <div className="flex justify-between text-white font-semibold">
                       <span>Total</span>
-                      <span>${total.toFixed(2)}</span>
+                      <span>{formatMoney(total)}</span>
                     </div>
                   </div>
                 </div>
@@ -465,7 +582,7 @@ export default function Checkout() {
                         : 'bg-blue-500 text-white hover:bg-blue-600'
                     }`}
                   >
-                    {isProcessing ? 'Processing...' : `Pay $${total.toFixed(2)}`}
+                    {isProcessing ? 'Processing...' : `Pay ${formatMoney(total)}`}
                   </button>
                 </div>
               </form>
@@ -476,6 +593,10 @@ export default function Checkout() {
           <div className="lg:col-span-4 hidden lg:block">
             <div className="bg-dark-800 rounded-2xl shadow-xl p-8 sticky top-8">
               <h2 className="text-lg font-semibold text-white mb-6">Order Summary</h2>
+
+              <div className="mb-6 empty:hidden">
+                <CartNotices />
+              </div>
               
               <div className="space-y-4 mb-6">
                 {items.map((item) => (
@@ -488,25 +609,37 @@ export default function Checkout() {
                     <div className="flex-1 min-w-0">
                       <h3 className="text-white font-medium truncate">{item.name}</h3>
                       <p className="text-dark-400">Qty: {item.quantity}</p>
-                      <p className="text-dark-300">${(item.price * item.quantity).toFixed(2)}</p>
+                      <p className="text-dark-300">{formatMoney(lineTotal(item, currency))}</p>
+                      {lineErrors[item.id] && (
+                        <p className="mt-1 text-sm text-red-500">{lineErrors[item.id]}</p>
+                      )}
                     </div>
                   </div>
                 ))}
               </div>
 
               <div className="border-t border-dark-700 pt-4 space-y-4">
+                <div className="flex justify-between items-center text-dark-300">
+                  <span>Currency</span>
+                  <CurrencySelector />
+                </div>
+                {currency !== BASE_CURRENCY && (
+                  <p className="text-sm text-dark-400">
+                    Rate: 1 {BASE_CURRENCY} = {exchangeRate(currency)} {currency}
+                  </p>
+                )}
                 <div className="flex justify-between text-dark-300">
                   <span>Subtotal</span>
-                  <span>${total.toFixed(2)}</span>
+                  <span>{formatMoney(total)}</span>
                 </div>
                 <div className="flex justify-between text-white font-semibold">
                   <span>Total</span>
-                  <span>${total.toFixed(2)}</span>
+                  <span>{formatMoney(total)}</span>
                 </div>
               </div>
 
               {/* Mobile Payment Status */}
-              {paymentMethod !== 'web' && mobilePaymentStatus.status !== 'idle' && (
+              {selectedMethod.flow === 'express' && mobilePaymentStatus.status !== 'idle' && (
                 <div className={`mt-4 p-4 rounded-xl border ${
                   mobilePaymentStatus.status === 'pending' ? 'bg-yellow-500/10 border-yellow-500/50 text-yellow-200' :
                   mobilePaymentStatus.status === 'success' ? 'bg-green-500/10 border-green-500/50 text-green-200' :
@@ -529,3 +662,16 @@ export default function Checkout() {
     </div>
   );
 }
+
+/**
+ * Preselects the payment method named in the query, if it exists
+ */
+export const getServerSideProps: GetServerSideProps<CheckoutProps> = async ({ query }) => {
+  const method = typeof query.method === 'string' ? getPaymentMethod(query.method) : undefined;
+
+  return {
+    props: {
+      initialMethod: method?.id ?? 'web'
+    }
+  };
+};
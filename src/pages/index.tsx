@@ -2,6 +2,7 @@ import { ShoppingCartIcon } from '@heroicons/react/24/outline';
 import ProductCard from '@/components/ProductCard';
 import Cart from '@/components/Cart';
 import ThemeToggle from '@/components/ThemeToggle';
+import CurrencySelector from '@/components/CurrencySelector';
 import { useCartStore } from '@/utils/cart';
 import productsData from '@/data/products.json';
 
@@ -15,6 +16,7 @@ export default function Home() {
           <div className="flex justify-between items-center">
             <h1 className="text-2xl font-bold text-white">PayNow Store</h1>
             <div className="flex items-center gap-4">
+              <CurrencySelector />
               <ThemeToggle />
               <button
                 onClick={toggleCart}
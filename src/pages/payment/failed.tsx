@@ -1,32 +1,105 @@
 /**
  * Payment Failed Page
- * Displays error message for failed transactions
+ * Explains why a payment did not go through and lets the customer try again
  * Features:
  * - Error indicator
- * - Retry button
+ * - Plain-language explanation for each failure reason
+ * - Last recorded gateway message for the order
+ * - Retry that restores the order's cart, with the same or another payment method
  * - Home navigation
- * - Dynamic error messages (TODO)
  */
+import type { GetServerSideProps } from 'next';
 import Link from 'next/link';
+import { useRouter } from 'next/router';
 import { XCircleIcon, HomeIcon } from '@heroicons/react/24/outline';
+import { OrderStore } from '@/services/orders';
+import { CatalogService } from '@/services/catalog';
+import { STATUS_LABELS } from '@/services/lifecycle';
+import { FAILURE_EXPLANATIONS, failureReasonOf, isFailureReason } from '@/services/failures';
+import { getPaymentMethod, methodsForCurrency, PaymentMethod } from '@/services/paymentMethods';
+import { CartItem, Currency, FailureReason, PaymentStatus } from '@/types/types';
+import { useCartStore } from '@/utils/cart';
+
+interface PaymentFailedProps {
+  reference: string | null;
+  status: PaymentStatus | null;
+  message: string | null;
+  reason: FailureReason | null;
+  method: PaymentMethod | null;
+  cart: { items: CartItem[]; currency: Currency } | null;
+}
+
+export const getServerSideProps: GetServerSideProps<PaymentFailedProps> = async ({ query }) => {
+  const reference = typeof query.reference === 'string' ? query.reference : undefined;
+  const order = reference ? OrderStore.getInstance().get(reference) : undefined;
+  const lastChange = order?.history[order.history.length - 1];
+
+  // The order's own record wins; the query reason covers failures that never reached the ledger
+  const reason = order ? failureReasonOf(order) : (isFailureReason(query.reason) ? query.reason : undefined);
+
+  // Rebuilt from the catalog so the restored cart matches what the store sells today
+  const items = (order?.items ?? []).flatMap(line => {
+    const product = CatalogService.getProduct(line.id);
+    return product ? [{ ...product, quantity: line.quantity }] : [];
+  });
+
+  return {
+    props: {
+      reference: order?.reference ?? null,
+      status: order?.status ?? null,
+      message: lastChange?.message ?? null,
+      reason: reason ?? null,
+      method: (order && getPaymentMethod(order.method)) ?? null,
+      cart: order && items.length > 0 ? { items, currency: order.amount.currency } : null
+    }
+  };
+};
+
+export default function PaymentFailed({ reference, status, message, reason, method, cart }: PaymentFailedProps) {
+  const router = useRouter();
+  const restoreCart = useCartStore(state => state.restoreCart);
+  const explanation = reason ? FAILURE_EXPLANATIONS[reason] : null;
+  const otherMethods = cart && method
+    ? methodsForCurrency(cart.currency).filter(option => option.id !== method.id)
+    : [];
+
+  /**
+   * Reopen checkout with the failed order's cart and the chosen method preselected
+   */
+  const retry = (methodId?: string) => {
+    if (cart) {
+      restoreCart(cart.items, cart.currency);
+    }
+    router.push(methodId ? `/checkout?method=${encodeURIComponent(methodId)}` : '/checkout');
+  };
 
-export default function PaymentFailed() {
   return (
     <div className="min-h-screen flex items-center justify-center">
-      <div className="text-center">
+      <div className="text-center max-w-lg px-4">
         <XCircleIcon className="h-16 w-16 text-red-500 mx-auto" />
-        <h1 className="mt-4 text-2xl font-bold text-white">Payment Failed</h1>
+        <h1 className="mt-4 text-2xl font-bold text-white">{explanation?.title ?? 'Payment Failed'}</h1>
         <p className="mt-2 text-dark-300">
-          Something went wrong with your payment. Please try again.
+          {explanation?.explanation ?? (message || 'Something went wrong with your payment. Please try again.')}
         </p>
+        {explanation && <p className="mt-2 text-dark-300">{explanation.advice}</p>}
+        {explanation && message && (
+          <p className="mt-2 text-sm text-dark-400">PayNow said: {message}</p>
+        )}
+        {reference && (
+          <p className="mt-2 text-sm text-dark-400">
+            Order {reference}
+            {status && <> &middot; {STATUS_LABELS[status]}</>}
+          </p>
+        )}
         <div className="mt-6 flex justify-center gap-4">
-          <Link 
-            href="/checkout"
+          <button
+            type="button"
+            onClick={() => retry(method?.id)}
             className="inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
           >
-            Try Again
-          </Link>
-          <Link 
+            {method ? `Try Again with ${method.label}` : 'Try Again'}
+          </button>
+          <Link
             href="/"
             className="inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
           >
@@ -34,7 +107,29 @@ export default function PaymentFailed() {
             Return Home
           </Link>
         </div>
+
+        {/* Other methods that accept the order's currency */}
+        {otherMethods.length > 0 && (
+          <div className="mt-8">
+            <p className="text-sm text-dark-400">
+              {explanation?.suggestOtherMethod ? 'Or pay another way:' : 'Prefer another payment method?'}
+            </p>
+            <div className="mt-3 flex flex-wrap justify-center gap-2">
+              {otherMethods.map(option => (
+                <button
+                  key={option.id}
+                  type="button"
+                  title={option.description}
+                  onClick={() => retry(option.id)}
+                  className="px-3 py-1.5 rounded-lg border border-dark-700 text-dark-300 hover:border-dark-600 hover:text-white"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -1,31 +1,211 @@
 /**
  * Payment Success Page
- * Displays confirmation of successful payment
+ * PayNow's return URL; only confirms payments the server has verified
  * Features:
- * - Success indicator
- * - Continue shopping button
- * - Auto-redirect (TODO)
+ * - Looks the order up by the `reference` in the return URL
+ * - Polls PayNow once if the order is still pending
+ * - Itemised receipt for paid orders, with PDF and printable versions
+ * - Empties the cart the order was paid from
+ * - Redirects to the failed page when the payment did not go through
+ * - Waits for the outcome when PayNow has not confirmed it yet
  */
+import { useEffect } from 'react';
+import type { GetServerSideProps } from 'next';
 import Link from 'next/link';
-import { CheckCircleIcon, HomeIcon } from '@heroicons/react/24/outline';
+import { useRouter } from 'next/router';
+import { ArrowDownTrayIcon, ArrowPathIcon, CheckCircleIcon, DocumentTextIcon, HomeIcon } from '@heroicons/react/24/outline';
+import { OrderStore } from '@/services/orders';
+import { PaymentPoller } from '@/services/poller';
+import { getConfig } from '@/services/config';
+import { STATUS_LABELS, wasPaid } from '@/services/lifecycle';
+import { Receipt } from '@/types/types';
+import { formatMoney } from '@/utils/money';
+import { toReceipt } from '@/utils/receipt';
+import { subscribeToPaymentStatus } from '@/utils/paymentStatus';
+import { useCartStore } from '@/utils/cart';
+
+type PaymentSuccessProps =
+  | { state: 'paid'; receipt: Receipt; cartId: string | null }
+  | { state: 'pending'; reference: string };
+
+export const getServerSideProps: GetServerSideProps<PaymentSuccessProps> = async ({ query }) => {
+  const reference = typeof query.reference === 'string' ? query.reference : undefined;
+  const failed = {
+    redirect: {
+      destination: reference ? `/payment/failed?reference=${encodeURIComponent(reference)}` : '/payment/failed',
+      permanent: false
+    }
+  };
+
+  if (!reference || !OrderStore.getInstance().get(reference)) {
+    return failed;
+  }
+
+  // The callback may not have arrived yet, so ask PayNow directly before deciding;
+  // reloads within a poll interval reuse the last answer, so the page cannot flood PayNow
+  const order = await PaymentPoller.getInstance().refresh(reference, getConfig().polling.intervalMs);
+  if (!order) {
+    return failed;
+  }
+
+  if (wasPaid(order.status)) {
+    return { props: { state: 'paid', receipt: toReceipt(order), cartId: order.cartId ?? null } };
+  }
+  if (order.status === 'pending') {
+    return { props: { state: 'pending', reference } };
+  }
+  return failed;
+};
+
+/**
+ * Shown while PayNow has not confirmed the payment either way
+ * Reloads into the receipt or the failed page as soon as the outcome is recorded
+ */
+function ConfirmingPayment({ reference }: { reference: string }) {
+  const router = useRouter();
+
+  useEffect(() => {
+    return subscribeToPaymentStatus(reference, snapshot => {
+      if (snapshot.status !== 'pending') {
+        router.replace(router.asPath);
+      }
+    });
+  }, [reference, router]);
 
-export default function PaymentSuccess() {
   return (
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
-        <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto" />
-        <h1 className="mt-4 text-2xl font-bold text-white">Payment Successful!</h1>
+        <ArrowPathIcon className="h-16 w-16 text-yellow-500 mx-auto animate-spin" />
+        <h1 className="mt-4 text-2xl font-bold text-white">Confirming your payment</h1>
         <p className="mt-2 text-dark-300">
-          Thank you for your purchase. You will receive an email confirmation shortly.
+          We are waiting for PayNow to confirm order {reference}. This page will update automatically.
         </p>
-        <Link 
-          href="/"
-          className="mt-6 inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
-        >
-          <HomeIcon className="h-5 w-5" />
-          Continue Shopping
-        </Link>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
+
+/**
+ * Empties the cart the order was paid from
+ * Receipts opened later, e.g. from the confirmation email, leave a newer cart alone
+ */
+function useClearPaidCart(cartId: string | null) {
+  useEffect(() => {
+    const cart = useCartStore.getState();
+    if (cartId && cart.cartId === cartId) {
+      cart.clearCart();
+    }
+  }, [cartId]);
+}
+
+export default function PaymentSuccess(props: PaymentSuccessProps) {
+  useClearPaidCart(props.state === 'paid' ? props.cartId : null);
+
+  if (props.state === 'pending') {
+    return <ConfirmingPayment reference={props.reference} />;
+  }
+
+  const { receipt } = props;
+  const receiptUrl = `/api/orders/${encodeURIComponent(receipt.reference)}/receipt`;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12">
+      <div className="w-full max-w-lg px-4">
+        <div className="text-center">
+          <CheckCircleIcon className="h-16 w-16 text-green-500 mx-auto" />
+          <h1 className="mt-4 text-2xl font-bold text-white">Payment Successful!</h1>
+          <p className="mt-2 text-dark-300">
+            Thank you for your purchase, {receipt.customer.name}. A confirmation will be sent to {receipt.customer.email}.
+          </p>
+        </div>
+
+        {/* Itemised Receipt */}
+        <div className="mt-8 bg-dark-800 rounded-2xl p-6">
+          <div className="flex justify-between text-sm text-dark-400">
+            <span>Order {receipt.reference}</span>
+            <span>{STATUS_LABELS[receipt.status]}</span>
+          </div>
+
+          <div className="mt-4 divide-y divide-dark-700">
+            {receipt.lines.map(line => (
+              <div key={line.name} className="flex justify-between py-3 text-dark-300">
+                <span>
+                  {line.name}
+                  <span className="ml-2 text-sm text-dark-400">
+                    {line.quantity} &times; {formatMoney(line.unitPrice)}
+                  </span>
+                </span>
+                <span>{formatMoney(line.total)}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-2 pt-4 border-t border-dark-700 flex justify-between text-white font-semibold">
+            <span>Total</span>
+            <span>{formatMoney(receipt.total)}</span>
+          </div>
+
+          {receipt.refunds.length > 0 && (
+            <div className="mt-2 space-y-1 text-sm">
+              {receipt.refunds.map((refund, index) => (
+                <div key={index} className="flex justify-between text-dark-400">
+                  <span>Refunded {new Date(refund.at).toLocaleDateString()}: {refund.reason}</span>
+                  <span>-{formatMoney(refund.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-white font-semibold">
+                <span>Net paid</span>
+                <span>{formatMoney(receipt.netTotal)}</span>
+              </div>
+            </div>
+          )}
+
+          <dl className="mt-6 space-y-1 text-sm text-dark-400">
+            <div className="flex justify-between">
+              <dt>Paid with</dt>
+              <dd>{receipt.method}</dd>
+            </div>
+            {receipt.paynowReference && (
+              <div className="flex justify-between">
+                <dt>PayNow reference</dt>
+                <dd>{receipt.paynowReference}</dd>
+              </div>
+            )}
+            {receipt.paidAt && (
+              <div className="flex justify-between">
+                <dt>Paid on</dt>
+                <dd>{new Date(receipt.paidAt).toLocaleString()}</dd>
+              </div>
+            )}
+          </dl>
+        </div>
+
+        <div className="mt-6 flex justify-center gap-6">
+          <a
+            href={`${receiptUrl}?format=pdf`}
+            className="inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
+          >
+            <ArrowDownTrayIcon className="h-5 w-5" />
+            Download PDF
+          </a>
+          <a
+            href={receiptUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
+          >
+            <DocumentTextIcon className="h-5 w-5" />
+            Printable Receipt
+          </a>
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-blue-500 hover:text-blue-400"
+          >
+            <HomeIcon className="h-5 w-5" />
+            Continue Shopping
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
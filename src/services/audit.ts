@@ -0,0 +1,63 @@
+/**
+ * Audit Log
+ * Append-only record of privileged staff actions
+ * Handles:
+ * - Sign-ins (successful and failed) and sign-outs
+ * - Admin actions such as re-polling an order
+ *
+ * One JSON object per line, so entries are only ever appended and never rewritten.
+ */
+import fs from 'fs';
+import path from 'path';
+import { DATA_DIR } from '@/utils/jsonFile';
+
+export interface AuditEntry {
+  at: string;
+  actor: string;          // Staff username, or "cli" for scripts
+  role?: string;
+  action: string;         // e.g. staff.login, order.repoll
+  target?: string;        // e.g. the order reference
+  outcome: 'success' | 'denied' | 'failure';
+  details?: Record<string, unknown>;
+  ip?: string;
+}
+
+export class AuditLog {
+  private static instance: AuditLog;
+
+  constructor(
+    private filePath: string = process.env.AUDIT_LOG_PATH || path.join(DATA_DIR, 'audit.log')
+  ) {}
+
+  static getInstance(): AuditLog {
+    if (!AuditLog.instance) {
+      AuditLog.instance = new AuditLog();
+    }
+    return AuditLog.instance;
+  }
+
+  record(entry: Omit<AuditEntry, 'at'>): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.appendFileSync(this.filePath, `${JSON.stringify({ at: new Date().toISOString(), ...entry })}\n`);
+  }
+
+  /**
+   * Most recent entries first
+   */
+  list(limit = 100): AuditEntry[] {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    return content
+      .split('\n')
+      .filter(Boolean)
+      .slice(-limit)
+      .reverse()
+      .map(line => JSON.parse(line) as AuditEntry);
+  }
+}
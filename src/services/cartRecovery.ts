@@ -0,0 +1,78 @@
+/**
+ * Abandoned Cart Recovery
+ * Background job that emails shoppers who left a cart at checkout
+ * Handles:
+ * - Closing a cart once an order placed from it is paid
+ * - Checking for abandoned carts every minute
+ * - Sending each abandoned cart one recovery email with a link back to it
+ *
+ * Only runs while CART_SYNC is on, since it works from the server copy of each cart.
+ */
+import { CartService } from '@/services/carts';
+import { OrderStore } from '@/services/orders';
+import { wasPaid } from '@/services/lifecycle';
+import { getConfig } from '@/services/config';
+import { renderCartRecovery } from '@/services/emailTemplates';
+import { createTransport, MailTransport } from '@/services/mail';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export class CartRecoveryService {
+  private timer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    private carts: CartService = CartService.getInstance(),
+    private orders: OrderStore = OrderStore.getInstance(),
+    private transport: MailTransport = createTransport()
+  ) {}
+
+  static getInstance(): CartRecoveryService {
+    const holder = globalThis as unknown as { cartRecoveryService?: CartRecoveryService };
+    if (!holder.cartRecoveryService) {
+      holder.cartRecoveryService = new CartRecoveryService();
+      holder.cartRecoveryService.start();
+    }
+    return holder.cartRecoveryService;
+  }
+
+  /**
+   * Follow paid orders back to their carts and start the periodic sweep
+   */
+  start(): void {
+    if (!getConfig().carts.sync) return;
+
+    this.orders.subscribeAll(order => {
+      if (order.cartId && wasPaid(order.status)) {
+        this.carts.markConverted(order.cartId, order.reference);
+      }
+    });
+
+    this.timer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref?.();
+  }
+
+  /**
+   * Email every cart that has been abandoned since the last sweep
+   * Delivery problems are logged and the cart is tried again on the next sweep
+   */
+  async sweep(): Promise<void> {
+    if (this.sweeping) return;
+
+    this.sweeping = true;
+    try {
+      const { appUrl, carts } = getConfig();
+      for (const cart of this.carts.listAbandoned(carts.abandonedAfterMs)) {
+        try {
+          const email = renderCartRecovery(cart, appUrl);
+          await this.transport.send({ to: cart.customer?.email as string, ...email });
+          this.carts.markRecoveryEmailed(cart.id);
+        } catch (error) {
+          console.error('Failed to send cart recovery email:', { cartId: cart.id, error });
+        }
+      }
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Server Carts
+ * Server copy of each shopper's cart, keyed by the cart id the browser generates
+ * Handles:
+ * - Saving the lines and currency whenever the browser's cart changes
+ * - The email (and name) a shopper enters at checkout
+ * - Linking checkout attempts and paid orders back to their cart
+ * - Finding abandoned carts for the recovery email
+ * - Limiting how many new emails each client may attach to carts per hour
+ * - Forgetting carts nobody has touched for CART_TTL_MS
+ */
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { CatalogService, RequestedLine } from '@/services/catalog';
+import { getConfig } from '@/services/config';
+import { CartItem } from '@/types/types';
+import { Currency } from '@/utils/money';
+
+const CONTACTS_PER_HOUR = 5;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Cart ids are random UUIDs from the browser; anything else is refused
+export const CART_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export interface SavedCart {
+  id: string;
+  items: RequestedLine[];
+  currency: Currency;
+  customer?: {
+    name?: string;
+    email: string;           // Captured at checkout; only used for the recovery email
+  };
+  orderReference?: string;   // Latest checkout attempt
+  checkedOutAt?: string;
+  convertedAt?: string;      // When an order placed from this cart was paid
+  recoveryEmailedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CartUpdate {
+  items: RequestedLine[];
+  currency: Currency;
+  customer?: SavedCart['customer'];
+}
+
+interface CartFile {
+  carts: Record<string, SavedCart>;
+}
+
+interface ContactFile {
+  clients: Record<string, number[]>; // When each client attached a new email, by address
+}
+
+/**
+ * Lines of a saved cart as cart items, priced from today's catalog
+ * Products that are no longer sold are left out
+ */
+export function cartItemsOf(cart: SavedCart): CartItem[] {
+  return cart.items.flatMap(line => {
+    const product = CatalogService.getProduct(line.id);
+    return product ? [{ ...product, quantity: line.quantity }] : [];
+  });
+}
+
+/**
+ * Whether a cart has waited long enough, with an email and no order, for a recovery email
+ * Carts whose latest change was a checkout attempt are left to the order's own emails.
+ */
+export function isAbandoned(cart: SavedCart, abandonedAfterMs: number, now: number = Date.now()): boolean {
+  return Boolean(cart.customer?.email) &&
+    cart.items.length > 0 &&
+    !cart.convertedAt &&
+    !cart.recoveryEmailedAt &&
+    (!cart.checkedOutAt || cart.checkedOutAt < cart.updatedAt) &&
+    Date.parse(cart.updatedAt) + abandonedAfterMs <= now;
+}
+
+export class CartService {
+  private static instance: CartService;
+  private contactsPath: string;
+
+  constructor(
+    private filePath: string = process.env.CART_STORE_PATH || path.join(DATA_DIR, 'carts.json')
+  ) {
+    // Kept beside the carts, so the allowance survives a restart
+    this.contactsPath = path.join(path.dirname(filePath), 'cart-contacts.json');
+  }
+
+  static getInstance(): CartService {
+    if (!CartService.instance) {
+      CartService.instance = new CartService();
+    }
+    return CartService.instance;
+  }
+
+  /**
+   * Read the carts with expired ones already dropped
+   */
+  private read(): CartFile {
+    const data = readJsonFile<CartFile>(this.filePath, { carts: {} });
+    const cutoff = Date.now() - getConfig().carts.ttlMs;
+
+    Object.values(data.carts).forEach(cart => {
+      if (Date.parse(cart.updatedAt) < cutoff) {
+        delete data.carts[cart.id];
+      }
+    });
+
+    return data;
+  }
+
+  private write(data: CartFile): void {
+    writeJsonFile(this.filePath, data);
+  }
+
+  get(id: string): SavedCart | undefined {
+    return this.read().carts[id];
+  }
+
+  /**
+   * Replace a cart's lines, creating the cart on first save
+   * A cart that has been paid for is closed and returned unchanged.
+   * @param update - The customer is only replaced when given
+   */
+  save(id: string, update: CartUpdate): SavedCart {
+    const data = this.read();
+    const existing = data.carts[id];
+    if (existing?.convertedAt) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const saved: SavedCart = {
+      ...existing,
+      id,
+      items: update.items,
+      currency: update.currency,
+      customer: update.customer ?? existing?.customer,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    // A changed cart can be recovered again once it is left a second time
+    if (existing && saved.recoveryEmailedAt && JSON.stringify(existing.items) !== JSON.stringify(update.items)) {
+      delete saved.recoveryEmailedAt;
+    }
+
+    data.carts[id] = saved;
+    this.write(data);
+    return saved;
+  }
+
+  /**
+   * Note that the shopper went to pay for this cart, and who they are
+   * Does nothing for carts that were never saved
+   */
+  recordCheckout(id: string, reference: string, customer: { name?: string; email?: string }): void {
+    const data = this.read();
+    const cart = data.carts[id];
+    if (!cart || cart.convertedAt) return;
+
+    cart.orderReference = reference;
+    cart.checkedOutAt = new Date().toISOString();
+    if (customer.email) {
+      cart.customer = { name: customer.name || undefined, email: customer.email };
+    }
+    this.write(data);
+  }
+
+  /**
+   * Close a cart once an order placed from it is paid
+   */
+  markConverted(id: string, reference: string): void {
+    const data = this.read();
+    const cart = data.carts[id];
+    if (!cart || cart.convertedAt) return;
+
+    cart.orderReference = reference;
+    cart.convertedAt = new Date().toISOString();
+    this.write(data);
+  }
+
+  /**
+   * Carts waiting for a recovery email, oldest first
+   */
+  listAbandoned(abandonedAfterMs: number): SavedCart[] {
+    const now = Date.now();
+    return Object.values(this.read().carts)
+      .filter(cart => isAbandoned(cart, abandonedAfterMs, now))
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt));
+  }
+
+  markRecoveryEmailed(id: string): void {
+    const data = this.read();
+    const cart = data.carts[id];
+    if (!cart) return;
+
+    cart.recoveryEmailedAt = new Date().toISOString();
+    this.write(data);
+  }
+
+  /**
+   * Count a new email against the client's hourly allowance
+   * @param client - The client's address, from clientIp
+   * @returns false once the allowance is used up
+   */
+  allowContact(client: string, now: number = Date.now()): boolean {
+    const data = readJsonFile<ContactFile>(this.contactsPath, { clients: {} });
+    Object.keys(data.clients).forEach(key => {
+      data.clients[key] = data.clients[key].filter(at => at > now - HOUR_MS);
+      if (data.clients[key].length === 0) delete data.clients[key];
+    });
+
+    const recent = data.clients[client] ?? [];
+    if (recent.length >= CONTACTS_PER_HOUR) return false;
+
+    data.clients[client] = [...recent, now];
+    writeJsonFile(this.contactsPath, data);
+    return true;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Catalog Service
+ * Server-side source of truth for product prices and stock
+ * Handles:
+ * - Product lookup by id
+ * - Pricing requested cart lines from the catalog
+ * - Per-line validation errors for the checkout page
+ */
+import productsData from '@/data/products.json';
+import { CartItem, Product } from '@/types/types';
+import { Currency, Money, sumMoney } from '@/utils/money';
+import { BASE_CURRENCY, lineTotal } from '@/utils/currency';
+import { MAX_QUANTITY_PER_ORDER } from '@/utils/cartRules';
+
+/**
+ * Line as requested by the client - only id and quantity are trusted
+ */
+export interface RequestedLine {
+  id: number;
+  quantity: number;
+}
+
+export interface LineError {
+  id: number | null;
+  field: 'id' | 'quantity';
+  message: string;
+}
+
+export type PricingResult =
+  | { valid: true; items: CartItem[]; total: Money }
+  | { valid: false; errors: LineError[] };
+
+export class CatalogService {
+  /**
+   * All products in the catalog
+   */
+  static list(): Product[] {
+    return productsData.products;
+  }
+
+  /**
+   * Look up a single product by id
+   */
+  static getProduct(id: number): Product | undefined {
+    return productsData.products.find(product => product.id === id);
+  }
+
+  /**
+   * Price requested lines against the catalog
+   * Prices and names always come from the catalog, never from the request.
+   * Repeated ids are merged before quantities are checked against the per-order maximum and stock.
+   * @param requested - Lines from the request body
+   * @param currency - Currency the order total is charged in
+   * @param stockOf - Units available per product, defaults to catalog stock
+   * @returns Priced items and order total, or every line error found
+   */
+  static priceItems(
+    requested: unknown,
+    currency: Currency = BASE_CURRENCY,
+    stockOf: (product: Product) => number = product => product.stock
+  ): PricingResult {
+    if (!Array.isArray(requested) || requested.length === 0) {
+      return { valid: false, errors: [{ id: null, field: 'id', message: 'Your cart is empty' }] };
+    }
+
+    const errors: LineError[] = [];
+    const quantities = new Map<number, number>();
+
+    requested.forEach((line: Partial<RequestedLine>) => {
+      const id = Number(line?.id);
+      const quantity = Number(line?.quantity);
+
+      if (!Number.isInteger(id) || !CatalogService.getProduct(id)) {
+        errors.push({ id: Number.isInteger(id) ? id : null, field: 'id', message: 'This product is no longer available' });
+        return;
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        errors.push({ id, field: 'quantity', message: 'Quantity must be a whole number of at least 1' });
+        return;
+      }
+
+      quantities.set(id, (quantities.get(id) || 0) + quantity);
+    });
+
+    const items: CartItem[] = [];
+    quantities.forEach((quantity, id) => {
+      const product = CatalogService.getProduct(id) as Product;
+
+      if (quantity > MAX_QUANTITY_PER_ORDER) {
+        errors.push({
+          id,
+          field: 'quantity',
+          message: `You can order up to ${MAX_QUANTITY_PER_ORDER} of ${product.name}`
+        });
+        return;
+      }
+
+      const stock = stockOf(product);
+      if (quantity > stock) {
+        errors.push({
+          id,
+          field: 'quantity',
+          message: `Only ${stock} of ${product.name} in stock`
+        });
+        return;
+      }
+
+      items.push({ ...product, quantity });
+    });
+
+    if (errors.length > 0) {
+      return { valid: false, errors };
+    }
+
+    return {
+      valid: true,
+      items,
+      total: sumMoney(items.map(item => lineTotal(item, currency)), currency)
+    };
+  }
+}
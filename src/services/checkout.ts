@@ -7,6 +7,8 @@
  * - Error handling
  */
 import { PaynowService } from './paynow';
+import { Money, sumMoney } from '@/utils/money';
+import { lineTotal } from '@/utils/currency';
 
 // Interface definitions for type safety
 export interface PaymentDetails {
@@ -23,7 +25,7 @@ export interface OrderItem {
 }
 
 export interface OrderData {
-  amount: number;
+  amount: Money;
   items: OrderItem[];
   reference: string;
   customerDetails: PaymentDetails;
@@ -41,7 +43,7 @@ export class CheckoutService {
    * Ensures all required fields meet business rules
    */
   private static validateOrderData(orderData: OrderData): boolean {
-    if (orderData.amount <= 0) return false;
+    if (orderData.amount.amount <= 0) return false;
     if (!orderData.items.length) return false;
     if (!orderData.customerDetails.email || !orderData.customerDetails.name) return false;
     return true;
@@ -69,8 +71,8 @@ export class CheckoutService {
     paymentMethod: 'web' | 'mobile' = 'web'
   ) {
     try {
-      // Calculate total amount
-      const amount = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+      // Calculate total amount in cents
+      const amount = sumMoney(items.map(item => lineTotal(item)));
       
       // Validate customer details
       if (!customerDetails.email || !customerDetails.name) {
@@ -78,7 +80,7 @@ export class CheckoutService {
       }
 
       // Validate order contents
-      if (amount <= 0 || items.length === 0) {
+      if (amount.amount <= 0 || items.length === 0) {
         throw new Error('Invalid order data');
       }
 
@@ -0,0 +1,8 @@
+/**
+ * Browser stand-in for services/config.ts under Turbopack
+ * Turbopack does not run the webpack plugin in next.config.ts, so client imports of the
+ * config are aliased here instead and fail as soon as the page loads.
+ */
+export {};
+
+throw new Error('src/services/config.ts is server-only but was imported into the browser bundle');
@@ -0,0 +1,259 @@
+/**
+ * PayNow Configuration
+ * Server-only settings, loaded from the environment and validated once
+ * Handles:
+ * - Integration ID/key per currency
+ * - Merchant email for test mode
+ * - Merchant reference prefix
+ * - Absolute result, return and gateway URLs
+ * - Emulator and status polling settings
+ * - How long stock reservations and idempotency keys are kept
+ * - Email notification transport
+ * - Server cart sync, how long carts are kept and abandoned cart recovery
+ * - Staff session secret
+ * - Whether a reverse proxy's client address can be trusted
+ *
+ * Never import this from a page or component: next.config.ts fails the
+ * client build if it is reached, so the integration keys cannot be bundled.
+ * Under Turbopack the browser gets config.browser.ts instead, which throws.
+ */
+import path from 'path';
+import { Currency } from '@/utils/money';
+import { DATA_DIR } from '@/utils/jsonFile';
+import { BASE_CURRENCY, SUPPORTED_CURRENCIES } from '@/utils/currency';
+import { REFERENCE_PREFIX_PATTERN } from '@/utils/reference';
+
+const PAYNOW_DEFAULT_BASE_URL = 'https://www.paynow.co.zw';
+
+export interface Integration {
+  id: string;
+  key: string;
+}
+
+export const MAIL_TRANSPORTS = ['console', 'maildir', 'smtp'] as const;
+
+export type MailTransportName = typeof MAIL_TRANSPORTS[number];
+
+export interface MailConfig {
+  transport: MailTransportName;
+  from: string;           // Sender, e.g. "Store <orders@example.com>"
+  maildir: string;        // Delivery directory for the maildir transport
+  smtp: {
+    host: string;
+    port: number;
+    secure: boolean;      // TLS from the first byte (usually port 465)
+    user?: string;
+    pass?: string;
+  };
+  pendingReminderMs: number; // How long a payment waits before the customer is reminded
+}
+
+export interface PaynowConfig {
+  integrations: Partial<Record<Currency, Integration>>;
+  merchantEmail?: string; // Test mode only accepts payments authorised by this email
+  referencePrefix: string; // Starts every merchant reference, e.g. INV or a store code
+  appUrl: string;         // Absolute URL the shop is served from
+  resultUrl: string;      // Absolute URL PayNow posts status updates to
+  returnUrl: string;      // Absolute URL customers are sent back to
+  gatewayUrl: string;     // PayNow, or the local emulator
+  emulator: {
+    enabled: boolean;
+    speed: number;
+  };
+  polling: {
+    intervalMs: number;
+    deadlineMs: number;
+  };
+  inventory: {
+    reservationTtlMs: number; // How long unpaid orders hold stock; never shorter than the poll deadline
+  };
+  idempotency: {
+    keyTtlMs: number;       // How long a checkout response can be replayed for its key
+  };
+  mail: MailConfig;
+  carts: {
+    sync: boolean;          // Keep a server copy of each shopper's cart
+    ttlMs: number;          // How long an untouched cart is kept
+    abandonedAfterMs: number; // How long a cart with an email sits untouched before a recovery email
+  };
+  trustProxy: boolean;      // Take the client address from X-Forwarded-For; only behind a proxy that sets it
+}
+
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid PayNow configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Parse an absolute http(s) URL, recording a problem if it is not one
+ */
+function absoluteUrl(name: string, value: string, problems: string[]): string {
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error('Unsupported protocol');
+    }
+    return url.toString().replace(/\/$/, '');
+  } catch {
+    problems.push(`${name} must be an absolute http(s) URL, got "${value}"`);
+    return value;
+  }
+}
+
+function positiveInteger(name: string, value: string | undefined, fallback: number, problems: string[]): number {
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    problems.push(`${name} must be a positive whole number, got "${value}"`);
+    return fallback;
+  }
+  return parsed;
+}
+
+/**
+ * Read and validate every PayNow setting
+ * @param env - Environment to read, defaults to process.env
+ * @throws ConfigError listing every problem found
+ */
+export function loadConfig(env: Env = process.env): PaynowConfig {
+  const problems: string[] = [];
+
+  // Anything prefixed NEXT_PUBLIC_ is inlined into the browser bundle
+  ['NEXT_PUBLIC_PAYNOW_INTEGRATION_ID', 'NEXT_PUBLIC_PAYNOW_INTEGRATION_KEY', 'NEXT_PUBLIC_PAYNOW_MERCHANT_EMAIL']
+    .filter(name => env[name])
+    .forEach(name => {
+      problems.push(`${name} is exposed to the browser; rename it to ${name.replace('NEXT_PUBLIC_', '')}`);
+    });
+
+  // PayNow issues a separate integration per currency; USD may use the unprefixed variables
+  const integrations: Partial<Record<Currency, Integration>> = {};
+  SUPPORTED_CURRENCIES.forEach(currency => {
+    const fallback = currency === 'USD';
+    const id = env[`PAYNOW_${currency}_INTEGRATION_ID`] || (fallback ? env.PAYNOW_INTEGRATION_ID : undefined);
+    const key = env[`PAYNOW_${currency}_INTEGRATION_KEY`] || (fallback ? env.PAYNOW_INTEGRATION_KEY : undefined);
+
+    if (id && key) {
+      integrations[currency] = { id, key };
+    } else if (id || key) {
+      problems.push(`PAYNOW_${currency}_INTEGRATION_ID and PAYNOW_${currency}_INTEGRATION_KEY must be set together`);
+    }
+  });
+  if (!integrations[BASE_CURRENCY]) {
+    problems.push(`No ${BASE_CURRENCY} integration: set PAYNOW_${BASE_CURRENCY}_INTEGRATION_ID and PAYNOW_${BASE_CURRENCY}_INTEGRATION_KEY`);
+  }
+
+  const merchantEmail = env.PAYNOW_MERCHANT_EMAIL || undefined;
+  if (merchantEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(merchantEmail)) {
+    problems.push(`PAYNOW_MERCHANT_EMAIL is not a valid email address, got "${merchantEmail}"`);
+  }
+
+  const referencePrefix = env.PAYNOW_REFERENCE_PREFIX || 'INV';
+  if (!REFERENCE_PREFIX_PATTERN.test(referencePrefix)) {
+    problems.push(`PAYNOW_REFERENCE_PREFIX must be 1-10 uppercase letters or digits, got "${referencePrefix}"`);
+  }
+
+  // PayNow calls back from its own servers, so every URL it is given must be absolute
+  const defaultAppUrl = env.NODE_ENV === 'production' ? undefined : 'http://localhost:3000';
+  const appUrlValue = env.APP_BASE_URL || defaultAppUrl;
+  if (!appUrlValue) {
+    problems.push('APP_BASE_URL is required in production, e.g. https://shop.example.com');
+  }
+  const appUrl = appUrlValue ? absoluteUrl('APP_BASE_URL', appUrlValue, problems) : '';
+
+  // Signs staff session cookies; utils/session.ts falls back to a fixed key outside production
+  if (env.SESSION_SECRET && env.SESSION_SECRET.length < 32) {
+    problems.push('SESSION_SECRET must be at least 32 characters');
+  } else if (!env.SESSION_SECRET && env.NODE_ENV === 'production') {
+    problems.push('SESSION_SECRET is required in production, e.g. the output of `openssl rand -hex 32`');
+  }
+
+  const resultUrl = absoluteUrl('PAYNOW_RESULT_URL', env.PAYNOW_RESULT_URL || `${appUrl}/api/payment/update`, problems);
+  const returnUrl = absoluteUrl('PAYNOW_RETURN_URL', env.PAYNOW_RETURN_URL || `${appUrl}/payment/success`, problems);
+  const gatewayUrl = absoluteUrl('PAYNOW_BASE_URL', env.PAYNOW_BASE_URL || PAYNOW_DEFAULT_BASE_URL, problems);
+
+  // Read by utils/cartRules.ts, in the browser as well, so it is only checked here
+  positiveInteger('NEXT_PUBLIC_MAX_QUANTITY_PER_ORDER', env.NEXT_PUBLIC_MAX_QUANTITY_PER_ORDER, 10, problems);
+
+  const mailTransport = env.MAIL_TRANSPORT || 'console';
+  if (!(MAIL_TRANSPORTS as readonly string[]).includes(mailTransport)) {
+    problems.push(`MAIL_TRANSPORT must be one of ${MAIL_TRANSPORTS.join(', ')}, got "${mailTransport}"`);
+  }
+  if (mailTransport === 'smtp' && !env.SMTP_HOST) {
+    problems.push('SMTP_HOST is required when MAIL_TRANSPORT is smtp');
+  }
+  if (Boolean(env.SMTP_USER) !== Boolean(env.SMTP_PASS)) {
+    problems.push('SMTP_USER and SMTP_PASS must be set together');
+  }
+
+  const config: PaynowConfig = {
+    integrations,
+    merchantEmail,
+    referencePrefix,
+    appUrl,
+    resultUrl,
+    returnUrl,
+    gatewayUrl,
+    emulator: {
+      enabled: env.PAYNOW_EMULATOR === 'true',
+      // Divides every scenario delay, e.g. 10 makes a 30 second scenario take 3 seconds
+      speed: positiveInteger('PAYNOW_EMULATOR_SPEED', env.PAYNOW_EMULATOR_SPEED, 1, problems)
+    },
+    polling: {
+      intervalMs: positiveInteger('PAYNOW_POLL_INTERVAL_MS', env.PAYNOW_POLL_INTERVAL_MS, 5000, problems),
+      deadlineMs: positiveInteger('PAYNOW_POLL_DEADLINE_MS', env.PAYNOW_POLL_DEADLINE_MS, 10 * 60 * 1000, problems)
+    },
+    inventory: {
+      reservationTtlMs: positiveInteger('INVENTORY_RESERVATION_TTL_MS', env.INVENTORY_RESERVATION_TTL_MS, 15 * 60 * 1000, problems)
+    },
+    idempotency: {
+      keyTtlMs: positiveInteger('IDEMPOTENCY_KEY_TTL_MS', env.IDEMPOTENCY_KEY_TTL_MS, 24 * 60 * 60 * 1000, problems)
+    },
+    mail: {
+      transport: mailTransport as MailTransportName,
+      from: env.MAIL_FROM || 'Store <orders@localhost>',
+      maildir: env.MAILDIR_PATH || path.join(DATA_DIR, 'mail'),
+      smtp: {
+        host: env.SMTP_HOST || 'localhost',
+        port: positiveInteger('SMTP_PORT', env.SMTP_PORT, 25, problems),
+        secure: env.SMTP_SECURE === 'true',
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined
+      },
+      pendingReminderMs: positiveInteger('MAIL_PENDING_REMINDER_MS', env.MAIL_PENDING_REMINDER_MS, 5 * 60 * 1000, problems)
+    },
+    carts: {
+      sync: env.CART_SYNC !== 'false',
+      ttlMs: positiveInteger('CART_TTL_MS', env.CART_TTL_MS, 30 * 24 * 60 * 60 * 1000, problems),
+      abandonedAfterMs: positiveInteger('CART_ABANDONED_AFTER_MS', env.CART_ABANDONED_AFTER_MS, 60 * 60 * 1000, problems)
+    },
+    trustProxy: env.TRUST_PROXY === 'true'
+  };
+
+  // Stock must stay held until the poller times the order out, or a late payment can oversell
+  if (config.inventory.reservationTtlMs < config.polling.deadlineMs) {
+    problems.push('INVENTORY_RESERVATION_TTL_MS must be at least PAYNOW_POLL_DEADLINE_MS');
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+let cached: PaynowConfig | undefined;
+
+/**
+ * Validated configuration for this process
+ * @throws ConfigError if the environment is invalid
+ */
+export function getConfig(): PaynowConfig {
+  if (!cached) {
+    cached = loadConfig();
+  }
+  return cached;
+}
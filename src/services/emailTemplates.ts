@@ -0,0 +1,178 @@
+/**
+ * Email Templates
+ * Customer emails sent as an order moves through the payment lifecycle
+ * Handles:
+ * - Order confirmation with an itemised receipt
+ * - Payment failed, explaining the reason and linking to a retry
+ * - Reminder for payments that are still waiting
+ * - Reminder for carts left before checkout
+ *
+ * Every template renders a plain text and an HTML version of the same content.
+ */
+import { FAILURE_EXPLANATIONS, failureReasonOf } from '@/services/failures';
+import { getPaymentMethod } from '@/services/paymentMethods';
+import { STORE_NAME } from '@/services/receipts';
+import { cartItemsOf, SavedCart } from '@/services/carts';
+import { Order } from '@/types/types';
+import { escapeHtml } from '@/utils/html';
+import { formatMoney, sumMoney } from '@/utils/money';
+import { lineTotal } from '@/utils/currency';
+import { toReceipt } from '@/utils/receipt';
+
+export type EmailTemplate = 'order_confirmation' | 'payment_failed' | 'pending_reminder';
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface Content {
+  subject: string;
+  heading: string;
+  paragraphs: string[];
+  lines?: [string, string][]; // Label/amount rows, e.g. line items
+  action?: { label: string; url: string };
+}
+
+/**
+ * Lay out template content in both formats
+ * @param name - Who the email greets
+ * @param footer - What the email is about, e.g. the order
+ */
+function render(name: string, footer: string, content: Content): RenderedEmail {
+  const greeting = `Hi ${name},`;
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(content.lines ? [content.lines.map(([label, amount]) => `${label}: ${amount}`).join('\n')] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`] : []),
+    footer
+  ].join('\n\n');
+
+  const rows = (content.lines ?? [])
+    .map(([label, amount]) => `<tr><td style="padding:4px 0">${escapeHtml(label)}</td><td style="padding:4px 0;text-align:right">${escapeHtml(amount)}</td></tr>`)
+    .join('');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Helvetica,Arial,sans-serif;color:#111827">
+  <div style="max-width:560px;margin:0 auto;background:#fff;border-radius:12px;overflow:hidden">
+    <div style="background:#3b82f6;color:#fff;padding:20px 28px;font-size:20px;font-weight:bold">${escapeHtml(STORE_NAME)}</div>
+    <div style="padding:24px 28px">
+      <h1 style="font-size:20px;margin:0 0 16px">${escapeHtml(content.heading)}</h1>
+      <p>${escapeHtml(greeting)}</p>
+      ${content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      ${rows ? `<table style="width:100%;border-collapse:collapse;margin:16px 0">${rows}</table>` : ''}
+      ${content.action ? `<p style="margin-top:24px"><a href="${escapeHtml(content.action.url)}" style="background:#3b82f6;color:#fff;padding:10px 18px;border-radius:8px;text-decoration:none">${escapeHtml(content.action.label)}</a></p>` : ''}
+    </div>
+    <div style="padding:16px 28px;color:#6b7280;font-size:13px">${escapeHtml(footer)}</div>
+  </div>
+</body>
+</html>`;
+
+  return { subject: content.subject, text, html };
+}
+
+function orderFooter(order: Order): string {
+  return `${STORE_NAME} - order ${order.reference}`;
+}
+
+function orderConfirmation(order: Order, appUrl: string): RenderedEmail {
+  const receipt = toReceipt(order);
+
+  return render(order.customer.name, orderFooter(order), {
+    subject: `Your ${STORE_NAME} order ${order.reference} is confirmed`,
+    heading: 'Thank you for your order',
+    paragraphs: [
+      `We have received your payment of ${formatMoney(receipt.total)} by ${receipt.method}.`,
+      ...(receipt.paynowReference ? [`PayNow reference: ${receipt.paynowReference}`] : [])
+    ],
+    lines: [
+      ...receipt.lines.map(line => [`${line.name} x ${line.quantity}`, formatMoney(line.total)] as [string, string]),
+      [`Total (${receipt.total.currency})`, formatMoney(receipt.total)]
+    ],
+    action: {
+      label: 'View receipt',
+      url: `${appUrl}/api/orders/${encodeURIComponent(order.reference)}/receipt`
+    }
+  });
+}
+
+function paymentFailed(order: Order, appUrl: string): RenderedEmail {
+  const reason = failureReasonOf(order);
+  const explanation = reason ? FAILURE_EXPLANATIONS[reason] : undefined;
+
+  return render(order.customer.name, orderFooter(order), {
+    subject: `Payment for ${STORE_NAME} order ${order.reference} did not go through`,
+    heading: explanation?.title ?? 'Payment failed',
+    paragraphs: [
+      `Your payment of ${formatMoney(order.amount)} was not completed.`,
+      ...(explanation ? [explanation.explanation, explanation.advice] : ['Please try again.'])
+    ],
+    action: {
+      label: 'Try again',
+      url: `${appUrl}/payment/failed?reference=${encodeURIComponent(order.reference)}`
+    }
+  });
+}
+
+function pendingReminder(order: Order, appUrl: string): RenderedEmail {
+  const method = getPaymentMethod(order.method);
+
+  // Web payments can be resumed on PayNow's page; express prompts have to be started again
+  const action = method?.flow === 'web' && order.redirectUrl
+    ? { label: 'Complete payment', url: order.redirectUrl }
+    : { label: 'Return to checkout', url: `${appUrl}/checkout` };
+
+  return render(order.customer.name, orderFooter(order), {
+    subject: `Your ${STORE_NAME} order ${order.reference} is waiting for payment`,
+    heading: 'Your payment is not complete yet',
+    paragraphs: [
+      `We are still waiting for your payment of ${formatMoney(order.amount)}${method ? ` by ${method.label}` : ''}.`,
+      'Your items are reserved for a short while. If you have already paid, you can ignore this email.'
+    ],
+    action
+  });
+}
+
+const TEMPLATES: Record<EmailTemplate, (order: Order, appUrl: string) => RenderedEmail> = {
+  order_confirmation: orderConfirmation,
+  payment_failed: paymentFailed,
+  pending_reminder: pendingReminder
+};
+
+/**
+ * Reminder for a cart left with items in it, linking back to a restored copy
+ * @param appUrl - Absolute URL of the shop, used for links
+ */
+export function renderCartRecovery(cart: SavedCart, appUrl: string): RenderedEmail {
+  const items = cartItemsOf(cart);
+  const total = sumMoney(items.map(item => lineTotal(item, cart.currency)), cart.currency);
+
+  return render(cart.customer?.name || 'there', `${STORE_NAME} - you entered this address at checkout`, {
+    subject: `You left something in your ${STORE_NAME} cart`,
+    heading: 'Your cart is waiting',
+    paragraphs: [
+      'You started checking out but did not finish. We kept your cart so you can pick up where you left off.',
+      'Prices and stock are checked again when you pay.'
+    ],
+    lines: [
+      ...items.map(item => [`${item.name} x ${item.quantity}`, formatMoney(lineTotal(item, cart.currency))] as [string, string]),
+      [`Total (${cart.currency})`, formatMoney(total)]
+    ],
+    action: {
+      label: 'Return to your cart',
+      url: `${appUrl}/cart/${encodeURIComponent(cart.id)}`
+    }
+  });
+}
+
+/**
+ * Render one of the customer emails for an order
+ * @param appUrl - Absolute URL of the shop, used for links
+ */
+export function renderEmail(template: EmailTemplate, order: Order, appUrl: string): RenderedEmail {
+  return TEMPLATES[template](order, appUrl);
+}
@@ -0,0 +1,256 @@
+/**
+ * PayNow Gateway Emulator
+ * Local stand-in for the PayNow servers, for offline development and CI
+ * Handles:
+ * - Web (initiatetransaction) and express (remotetransaction) initiation
+ * - Poll URL status checks
+ * - Test number scenarios with realistic timings
+ * - Signed result URL callbacks
+ *
+ * Enable with PAYNOW_EMULATOR=true and point PAYNOW_BASE_URL at /api/emulator/paynow
+ */
+import crypto from 'crypto';
+import { PAYNOW_TEST_NUMBERS } from '@/services/paymentMethods';
+import { getConfig, Integration } from '@/services/config';
+
+type GatewayStatus = 'Created' | 'Sent' | 'Paid' | 'Cancelled' | 'Failed';
+
+interface Scenario {
+  outcome: 'Paid' | 'Cancelled';
+  afterMs: number;
+}
+
+/**
+ * Mirrors PayNow's documented test mode behaviour
+ * Documentation: https://developers.paynow.co.zw/docs/test_mode.html
+ */
+const MOBILE_SCENARIOS: Record<string, Scenario> = {
+  [PAYNOW_TEST_NUMBERS.SUCCESS]: { outcome: 'Paid', afterMs: 5000 },
+  [PAYNOW_TEST_NUMBERS.DELAYED]: { outcome: 'Paid', afterMs: 30000 },
+  [PAYNOW_TEST_NUMBERS.CANCELLED]: { outcome: 'Cancelled', afterMs: 30000 }
+};
+
+interface EmulatedTransaction {
+  guid: string;
+  integrationKey: string;
+  reference: string;
+  amount: string;
+  paynowReference: string;
+  resultUrl: string;
+  returnUrl: string;
+  pollUrl: string;
+  status: GatewayStatus;
+  phone?: string;
+  method?: string;
+  createdAt: number;
+}
+
+export type GatewayFields = Record<string, string>;
+
+/**
+ * Paynow Emulator
+ * Accepts every configured currency integration and signs with the matching key.
+ * Keeps transactions in memory; they do not survive a server restart
+ */
+export class PaynowEmulator {
+  private transactions = new Map<string, EmulatedTransaction>();
+  private nextPaynowReference = 1000000;
+
+  constructor(private integrations: Integration[], private speed: number = 1) {}
+
+  static getInstance(): PaynowEmulator {
+    const holder = globalThis as unknown as { paynowEmulator?: PaynowEmulator };
+    if (!holder.paynowEmulator) {
+      const config = getConfig();
+      holder.paynowEmulator = new PaynowEmulator(
+        Object.values(config.integrations) as Integration[],
+        config.emulator.speed
+      );
+    }
+    return holder.paynowEmulator;
+  }
+
+  /**
+   * Same hash PayNow uses: SHA512 over all values in order, then the key
+   */
+  private hash(fields: GatewayFields, integrationKey: string): string {
+    const values = Object.keys(fields)
+      .filter(key => key !== 'hash')
+      .map(key => fields[key])
+      .join('');
+
+    return crypto
+      .createHash('sha512')
+      .update(values + integrationKey.toLowerCase())
+      .digest('hex')
+      .toUpperCase();
+  }
+
+  /**
+   * Encode fields as a signed URL-encoded body
+   */
+  sign(fields: GatewayFields, integrationKey: string): string {
+    return new URLSearchParams({ ...fields, hash: this.hash(fields, integrationKey) }).toString();
+  }
+
+  private error(message: string): string {
+    return new URLSearchParams({ status: 'Error', error: message }).toString();
+  }
+
+  /**
+   * Check a merchant request came from a known integration and was not altered
+   * @returns The request fields and the key of the integration that signed them
+   */
+  private verify(body: string): { fields: GatewayFields; integrationKey: string } | null {
+    const fields = Object.fromEntries(new URLSearchParams(body));
+    const integration = this.integrations.find(candidate => candidate.id === fields.id);
+
+    if (!integration || fields.hash !== this.hash(fields, integration.key)) {
+      return null;
+    }
+    return { fields, integrationKey: integration.key };
+  }
+
+  private create(fields: GatewayFields, integrationKey: string, baseUrl: string): EmulatedTransaction {
+    const guid = crypto.randomUUID();
+    const transaction: EmulatedTransaction = {
+      guid,
+      integrationKey,
+      reference: decodeURI(fields.reference),
+      amount: Number(fields.amount).toFixed(2),
+      paynowReference: String(this.nextPaynowReference++),
+      resultUrl: decodeURI(fields.resulturl),
+      returnUrl: decodeURI(fields.returnurl),
+      pollUrl: `${baseUrl}/interface/checkpayment?guid=${guid}`,
+      status: 'Created',
+      createdAt: Date.now()
+    };
+
+    this.transactions.set(guid, transaction);
+    return transaction;
+  }
+
+  /**
+   * Web payment: customer is sent to the emulated payment page
+   * @param body - Raw request body from the merchant
+   * @param baseUrl - Absolute URL the emulator is served from
+   */
+  initiateTransaction(body: string, baseUrl: string): string {
+    const request = this.verify(body);
+    if (!request) return this.error('Invalid Hash');
+
+    const transaction = this.create(request.fields, request.integrationKey, baseUrl);
+    return this.sign({
+      status: 'Ok',
+      browserurl: `${baseUrl}/payment?guid=${transaction.guid}`,
+      pollurl: transaction.pollUrl
+    }, transaction.integrationKey);
+  }
+
+  /**
+   * Express (mobile) payment: outcome is decided by the test number
+   * @param body - Raw request body from the merchant
+   * @param baseUrl - Absolute URL the emulator is served from
+   */
+  initiateRemoteTransaction(body: string, baseUrl: string): string {
+    const request = this.verify(body);
+    if (!request) return this.error('Invalid Hash');
+
+    const { fields } = request;
+    const phone = decodeURI(fields.phone || '');
+    if (phone === PAYNOW_TEST_NUMBERS.INSUFFICIENT) {
+      return this.error('Insufficient balance');
+    }
+
+    // Methods without a phone number (InnBucks, saved cards) always take the quick success path
+    const scenario = phone ? MOBILE_SCENARIOS[phone] : MOBILE_SCENARIOS[PAYNOW_TEST_NUMBERS.SUCCESS];
+    if (!scenario) {
+      return this.error('Test mode: use one of the PayNow test numbers');
+    }
+
+    const transaction = this.create(fields, request.integrationKey, baseUrl);
+    transaction.phone = phone;
+    transaction.method = decodeURI(fields.method || '');
+    transaction.status = 'Sent';
+
+    setTimeout(() => this.settle(transaction.guid, scenario.outcome), scenario.afterMs / this.speed);
+
+    return this.sign({
+      status: 'Ok',
+      instructions: `Dial *151*2*4# and enter your PIN to approve the payment of ${transaction.amount}`,
+      paynowreference: transaction.paynowReference,
+      pollurl: transaction.pollUrl
+    }, transaction.integrationKey);
+  }
+
+  /**
+   * Current status, as returned to a poll URL request
+   */
+  poll(guid: string): string {
+    const transaction = this.transactions.get(guid);
+    if (!transaction) return this.error('Transaction not found');
+
+    return this.sign(this.statusFields(transaction), transaction.integrationKey);
+  }
+
+  /**
+   * Customer action on the emulated web payment page
+   * @returns URL the customer should be returned to
+   */
+  completeWebPayment(guid: string, outcome: 'Paid' | 'Cancelled'): string | null {
+    const transaction = this.transactions.get(guid);
+    if (!transaction) return null;
+
+    this.settle(guid, outcome);
+    return transaction.returnUrl;
+  }
+
+  /**
+   * Transaction details for the emulated payment page
+   */
+  getTransaction(guid: string): Readonly<EmulatedTransaction> | undefined {
+    return this.transactions.get(guid);
+  }
+
+  private statusFields(transaction: EmulatedTransaction): GatewayFields {
+    return {
+      reference: transaction.reference,
+      amount: transaction.amount,
+      paynowreference: transaction.paynowReference,
+      pollurl: transaction.pollUrl,
+      status: transaction.status
+    };
+  }
+
+  /**
+   * Move a transaction to its final status and notify the merchant once
+   */
+  private settle(guid: string, status: GatewayStatus): void {
+    const transaction = this.transactions.get(guid);
+    if (!transaction || transaction.status === 'Paid' || transaction.status === 'Cancelled') {
+      return;
+    }
+
+    transaction.status = status;
+    this.postResult(transaction).catch(error => {
+      console.error('Emulator result URL callback failed:', error);
+    });
+  }
+
+  private async postResult(transaction: EmulatedTransaction): Promise<void> {
+    // Relative result URLs are resolved against the emulator's own host
+    const resultUrl = new URL(transaction.resultUrl, transaction.pollUrl).toString();
+
+    const response = await fetch(resultUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: this.sign(this.statusFields(transaction), transaction.integrationKey)
+    });
+
+    console.log('Emulator posted result:', {
+      reference: transaction.reference,
+      status: transaction.status,
+      response: response.status
+    });
+  }
+}
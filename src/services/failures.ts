@@ -0,0 +1,95 @@
+/**
+ * Payment Failure Reasons
+ * Explains to the customer why a payment did not go through
+ * Handles:
+ * - Mapping failed outcomes and gateway messages to reason codes
+ * - Plain-language explanation and next step for each reason
+ * - Whether retrying with another payment method is worth suggesting
+ */
+import type { Order, PaymentStatus } from '@/types/types';
+
+export const FAILURE_REASONS = [
+  'insufficient_balance',
+  'user_cancelled',
+  'timeout',
+  'gateway_error',
+  'invalid_phone'
+] as const;
+
+export type FailureReason = typeof FAILURE_REASONS[number];
+
+export interface FailureExplanation {
+  title: string;
+  explanation: string;
+  advice: string;
+  suggestOtherMethod: boolean; // Another method is more likely to work than repeating this one
+}
+
+export const FAILURE_EXPLANATIONS: Record<FailureReason, FailureExplanation> = {
+  insufficient_balance: {
+    title: 'Not enough funds',
+    explanation: 'Your wallet or account did not have enough money to cover this order.',
+    advice: 'Top up and try again, or pay with a different method.',
+    suggestOtherMethod: true
+  },
+  user_cancelled: {
+    title: 'Payment cancelled',
+    explanation: 'The payment was cancelled before it was completed, so you have not been charged.',
+    advice: 'Your cart has been kept. You can try again whenever you are ready.',
+    suggestOtherMethod: false
+  },
+  timeout: {
+    title: 'Payment timed out',
+    explanation: 'We did not receive confirmation of your payment in time, so the order was not completed.',
+    advice: 'If money left your account it will be matched to this order or returned. Otherwise, try again.',
+    suggestOtherMethod: false
+  },
+  gateway_error: {
+    title: 'Payment could not be processed',
+    explanation: 'PayNow was unable to process this payment. This is usually temporary.',
+    advice: 'Wait a moment and try again, or pay with a different method.',
+    suggestOtherMethod: true
+  },
+  invalid_phone: {
+    title: 'Phone number not accepted',
+    explanation: 'The phone number entered is not registered for the selected mobile money service.',
+    advice: 'Check the number and try again, or choose the service your number is registered with.',
+    suggestOtherMethod: true
+  }
+};
+
+// Checked in order; the first matching pattern decides the reason
+const MESSAGE_PATTERNS: [RegExp, FailureReason][] = [
+  [/insufficient|balance|not enough funds/i, 'insufficient_balance'],
+  [/phone|mobile|msisdn|subscriber|test numbers/i, 'invalid_phone'],
+  [/cancel/i, 'user_cancelled'],
+  [/timed? ?out/i, 'timeout']
+];
+
+export function isFailureReason(value: unknown): value is FailureReason {
+  return typeof value === 'string' && (FAILURE_REASONS as readonly string[]).includes(value);
+}
+
+/**
+ * Reason code for a failed outcome
+ * @param status - Canonical state the order moved to
+ * @param message - Gateway or poller message recorded with the change
+ * @returns Reason code, or undefined if the status is not a failure
+ */
+export function classifyFailure(status: PaymentStatus, message?: string): FailureReason | undefined {
+  if (status === 'cancelled') return 'user_cancelled';
+  if (status === 'expired') return 'timeout';
+  if (status !== 'failed') return undefined;
+
+  const match = MESSAGE_PATTERNS.find(([pattern]) => message && pattern.test(message));
+  return match ? match[1] : 'gateway_error';
+}
+
+/**
+ * Reason code for an order's current status, taken from its latest history entry
+ */
+export function failureReasonOf(order: Order): FailureReason | undefined {
+  const lastChange = order.history[order.history.length - 1];
+  if (lastChange?.status !== order.status) return classifyFailure(order.status);
+  return lastChange.reason ?? classifyFailure(order.status, lastChange.message);
+}
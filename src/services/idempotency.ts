@@ -0,0 +1,147 @@
+/**
+ * Idempotency Store
+ * Remembers the outcome of each checkout attempt so it is only sent to PayNow once
+ * Handles:
+ * - Claiming an idempotency key before a payment is initiated
+ * - Replaying the stored response for repeated requests
+ * - Rejecting a key reused for a different request
+ * - Cart fingerprints for spotting a second prompt for the same cart
+ */
+import crypto from 'crypto';
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { RequestedLine } from '@/services/catalog';
+import { getConfig } from '@/services/config';
+import { Currency } from '@/utils/money';
+
+export interface StoredResponse {
+  statusCode: number;
+  body: unknown;
+}
+
+interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  response?: StoredResponse; // Missing while the first request is still in flight
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface IdempotencyFile {
+  keys: Record<string, IdempotencyRecord>;
+}
+
+export type IdempotencyClaim =
+  | { state: 'new' }
+  | { state: 'in_progress' }
+  | { state: 'completed'; response: StoredResponse }
+  | { state: 'mismatch' };
+
+/**
+ * Stable hash of a cart, so the same lines in any order give the same value
+ * @param items - Requested lines (only id and quantity are used)
+ * @param currency - Currency the cart is charged in
+ * @param customer - Who is paying, so different shoppers never collide
+ */
+export function cartFingerprint(
+  items: RequestedLine[],
+  currency: Currency,
+  customer: { email?: string; phone?: string }
+): string {
+  const lines = items
+    .map(({ id, quantity }) => `${id}x${quantity}`)
+    .sort()
+    .join(',');
+  const payer = [customer.email, customer.phone].map(value => (value || '').trim().toLowerCase()).join('|');
+
+  return crypto.createHash('sha256').update(`${lines}|${currency}|${payer}`).digest('hex');
+}
+
+/**
+ * Idempotency Store
+ * File-backed record of responses keyed by the client's idempotency key.
+ * Claiming reads, checks and writes synchronously, so a double click can only start one payment.
+ */
+export class IdempotencyStore {
+  private static instance: IdempotencyStore;
+
+  constructor(
+    private filePath: string = process.env.IDEMPOTENCY_STORE_PATH || path.join(DATA_DIR, 'idempotency.json')
+  ) {}
+
+  static getInstance(): IdempotencyStore {
+    if (!IdempotencyStore.instance) {
+      IdempotencyStore.instance = new IdempotencyStore();
+    }
+    return IdempotencyStore.instance;
+  }
+
+  /**
+   * Read the store with expired keys already dropped
+   */
+  private read(): IdempotencyFile {
+    const data = readJsonFile<IdempotencyFile>(this.filePath, { keys: {} });
+    const now = Date.now();
+
+    Object.values(data.keys).forEach(record => {
+      if (Date.parse(record.expiresAt) <= now) {
+        delete data.keys[record.key];
+      }
+    });
+
+    return data;
+  }
+
+  private write(data: IdempotencyFile): void {
+    writeJsonFile(this.filePath, data);
+  }
+
+  /**
+   * Claim a key for a request, or find out what already happened to it
+   * @param key - Idempotency key sent by the client
+   * @param fingerprint - Hash of the request the key is being used for
+   */
+  claim(key: string, fingerprint: string): IdempotencyClaim {
+    const data = this.read();
+    const existing = data.keys[key];
+
+    if (existing) {
+      if (existing.fingerprint !== fingerprint) return { state: 'mismatch' };
+      if (!existing.response) return { state: 'in_progress' };
+      return { state: 'completed', response: existing.response };
+    }
+
+    const now = Date.now();
+    data.keys[key] = {
+      key,
+      fingerprint,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + getConfig().idempotency.keyTtlMs).toISOString()
+    };
+    this.write(data);
+    return { state: 'new' };
+  }
+
+  /**
+   * Store the response to replay for later requests with this key
+   */
+  complete(key: string, response: StoredResponse): void {
+    const data = this.read();
+    const record = data.keys[key];
+    if (!record) return;
+
+    data.keys[key] = { ...record, response };
+    this.write(data);
+  }
+
+  /**
+   * Forget a key whose request failed before reaching a final answer, so it can be retried
+   */
+  release(key: string): void {
+    const data = this.read();
+    if (!data.keys[key]) return;
+
+    delete data.keys[key];
+    this.write(data);
+  }
+}
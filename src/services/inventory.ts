@@ -0,0 +1,172 @@
+/**
+ * Inventory Service
+ * Tracks stock against the catalog while payments are in flight
+ * Handles:
+ * - Reserving quantities when a payment is initiated
+ * - Permanent decrement when the order is paid
+ * - Releasing reservations on cancellation, failure or expiry
+ * - Restocking units returned with a refund
+ */
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { CatalogService, LineError, RequestedLine } from '@/services/catalog';
+import { getConfig } from '@/services/config';
+
+interface Reservation {
+  reference: string;
+  items: RequestedLine[];
+  createdAt: string;
+  expiresAt: string;
+}
+
+interface InventoryFile {
+  // Units permanently taken out of catalog stock, by product id
+  sold: Record<string, number>;
+  reservations: Record<string, Reservation>;
+}
+
+/**
+ * Inventory
+ * File-backed stock ledger. Every operation reads, checks and writes synchronously,
+ * so two requests in the same process can never both reserve the last unit.
+ */
+export class InventoryService {
+  private static instance: InventoryService;
+
+  constructor(
+    private filePath: string = process.env.INVENTORY_STORE_PATH || path.join(DATA_DIR, 'inventory.json')
+  ) {}
+
+  static getInstance(): InventoryService {
+    if (!InventoryService.instance) {
+      InventoryService.instance = new InventoryService();
+    }
+    return InventoryService.instance;
+  }
+
+  /**
+   * Read the ledger with expired reservations already dropped
+   * Reservations outlive the poll deadline, so a pending order is timed out before its
+   * reservation lapses. One only lapses first if the server was down; commit() re-checks those.
+   */
+  private read(): InventoryFile {
+    const data = readJsonFile<InventoryFile>(this.filePath, { sold: {}, reservations: {} });
+    const now = Date.now();
+
+    Object.values(data.reservations).forEach(reservation => {
+      if (Date.parse(reservation.expiresAt) <= now) {
+        console.log('Reservation expired, releasing stock:', reservation.reference);
+        delete data.reservations[reservation.reference];
+      }
+    });
+
+    return data;
+  }
+
+  private write(data: InventoryFile): void {
+    writeJsonFile(this.filePath, data);
+  }
+
+  private availableIn(data: InventoryFile, productId: number, exceptReference?: string): number {
+    const product = CatalogService.getProduct(productId);
+    if (!product) return 0;
+
+    const reserved = Object.values(data.reservations)
+      .filter(reservation => reservation.reference !== exceptReference)
+      .flatMap(reservation => reservation.items)
+      .filter(item => item.id === productId)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+    return product.stock - (data.sold[productId] || 0) - reserved;
+  }
+
+  /**
+   * Units that can still be sold right now
+   * @param exceptReference - Order whose own reservation should count as available, e.g. the shopper's pending one
+   */
+  available(productId: number, exceptReference?: string): number {
+    return Math.max(0, this.availableIn(this.read(), productId, exceptReference));
+  }
+
+  /**
+   * Hold stock for an order until it is paid, cancelled or the hold expires
+   * @returns Lines that could not be reserved; nothing is reserved unless this is empty
+   */
+  reserve(reference: string, items: RequestedLine[]): LineError[] {
+    const data = this.read();
+
+    const errors: LineError[] = items
+      .filter(item => item.quantity > this.availableIn(data, item.id))
+      .map(item => ({
+        id: item.id,
+        field: 'quantity' as const,
+        message: `Only ${Math.max(0, this.availableIn(data, item.id))} left in stock`
+      }));
+
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const now = Date.now();
+    data.reservations[reference] = {
+      reference,
+      items: items.map(({ id, quantity }) => ({ id, quantity })),
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + getConfig().inventory.reservationTtlMs).toISOString()
+    };
+    this.write(data);
+    return [];
+  }
+
+  /**
+   * Turn an order's reservation into a permanent decrement
+   * Without a reservation the lines are checked against stock again. They are counted as
+   * sold either way, since they were paid for, so a refund can return them.
+   * @param items - Order lines, used if the reservation already expired
+   * @returns Units paid for that were not in stock; empty unless the reservation had expired
+   */
+  commit(reference: string, items: RequestedLine[]): RequestedLine[] {
+    const data = this.read();
+    const reservation = data.reservations[reference];
+
+    const shortfall = reservation ? [] : items
+      .map(item => ({ id: item.id, quantity: item.quantity - Math.max(0, this.availableIn(data, item.id)) }))
+      .filter(item => item.quantity > 0);
+
+    if (!reservation) {
+      console.warn('Committing stock without an active reservation:', { reference, shortfall });
+    }
+
+    (reservation?.items || items).forEach(item => {
+      data.sold[item.id] = (data.sold[item.id] || 0) + item.quantity;
+    });
+
+    delete data.reservations[reference];
+    this.write(data);
+    return shortfall;
+  }
+
+  /**
+   * Put sold units back on sale, e.g. when they are returned for a refund
+   */
+  restock(items: RequestedLine[]): void {
+    if (items.length === 0) return;
+
+    const data = this.read();
+    items.forEach(item => {
+      data.sold[item.id] = Math.max(0, (data.sold[item.id] || 0) - item.quantity);
+    });
+    this.write(data);
+  }
+
+  /**
+   * Return an order's reserved stock
+   */
+  release(reference: string): void {
+    const data = this.read();
+    if (!data.reservations[reference]) return;
+
+    delete data.reservations[reference];
+    this.write(data);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Payment Lifecycle
+ * Single source of truth for order/payment states
+ * Handles:
+ * - Mapping raw PayNow statuses to canonical states
+ * - Legal transitions between states
+ * - Timestamped transition records
+ */
+import type { Order, OrderStatusChange } from '@/types/types';
+
+export const PAYMENT_STATUSES = [
+  'pending',
+  'paid',
+  'cancelled',
+  'failed',
+  'expired',
+  'disputed',
+  'partially_refunded',
+  'refunded'
+] as const;
+
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+/**
+ * Every status PayNow is known to report, lowercased
+ * Documentation: https://developers.paynow.co.zw/docs/status_update.html
+ */
+const GATEWAY_STATUS_MAP: Record<string, PaymentStatus> = {
+  'created': 'pending',
+  'sent': 'pending',
+  'pending': 'pending',
+  'paid': 'paid',
+  'complete': 'paid',
+  'confirmed': 'paid',
+  'awaiting delivery': 'paid',
+  'delivered': 'paid',
+  'cancelled': 'cancelled',
+  'failed': 'failed',
+  'error': 'failed',
+  'disputed': 'disputed',
+  'refunded': 'refunded'
+};
+
+/**
+ * Allowed next states for each state
+ * Repeating the current state is always allowed and treated as a no-op.
+ * `expired` means we stopped polling, not that PayNow gave up, so a late
+ * outcome from PayNow is still accepted.
+ * Partial refunds are recorded by staff and can be followed by further refunds.
+ */
+const TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['paid', 'cancelled', 'failed', 'expired'],
+  expired: ['paid', 'cancelled', 'failed'],
+  paid: ['disputed', 'partially_refunded', 'refunded'],
+  disputed: ['paid', 'partially_refunded', 'refunded'],
+  partially_refunded: ['disputed', 'refunded'],
+  cancelled: [],
+  failed: [],
+  refunded: []
+};
+
+export const STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: 'Awaiting payment',
+  paid: 'Paid',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+  expired: 'Timed out',
+  disputed: 'Disputed',
+  partially_refunded: 'Partially refunded',
+  refunded: 'Refunded'
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: PaymentStatus, public to: PaymentStatus) {
+    super(`Cannot move payment from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+/**
+ * Map a raw PayNow status onto a canonical state
+ * Unknown statuses are treated as still pending rather than guessed at
+ */
+export function fromGatewayStatus(gatewayStatus?: string): PaymentStatus {
+  const status = (gatewayStatus || '').trim().toLowerCase();
+  const mapped = GATEWAY_STATUS_MAP[status];
+
+  if (!mapped) {
+    console.warn('Unknown PayNow status, treating as pending:', gatewayStatus);
+    return 'pending';
+  }
+  return mapped;
+}
+
+export function canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+  return from === to || TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Whether the customer-facing outcome of a payment is known
+ */
+export function isSettled(status: PaymentStatus): boolean {
+  return status !== 'pending';
+}
+
+/**
+ * Whether the customer's money was taken, so the order has a receipt
+ * Disputed and refunded orders were paid first.
+ */
+export function wasPaid(status: PaymentStatus): boolean {
+  return ['paid', 'disputed', 'partially_refunded', 'refunded'].includes(status);
+}
+
+/**
+ * Day an order counts under in the admin views, YYYY-MM-DD (UTC)
+ * The day it was first paid, which is when PayNow lists it, or the day it was created if it never was.
+ */
+export function bookedOn(order: Order): string {
+  return (order.history.find(change => change.status === 'paid')?.at ?? order.createdAt).slice(0, 10);
+}
+
+/**
+ * Apply a status change to an order
+ * @param order - Current order
+ * @param change - Status change to record (timestamp is added here)
+ * @returns New order with the change appended to its history
+ * @throws InvalidTransitionError if the lifecycle does not allow the change
+ */
+export function applyTransition(
+  order: Order,
+  change: Omit<OrderStatusChange, 'at' | 'from'>
+): Order {
+  if (!canTransition(order.status, change.status)) {
+    throw new InvalidTransitionError(order.status, change.status);
+  }
+
+  const at = new Date().toISOString();
+  return {
+    ...order,
+    status: change.status,
+    history: [...order.history, { ...change, from: order.status, at }],
+    updatedAt: at
+  };
+}
@@ -0,0 +1,276 @@
+/**
+ * Mail Transports
+ * Delivers outgoing email through the transport chosen in config
+ * Handles:
+ * - MIME encoding (plain text and HTML alternatives)
+ * - Console transport for development
+ * - Maildir transport, one file per message, readable by any mail client
+ * - SMTP transport, e.g. for a local SMTP sink or a relay
+ * - Refusing recipients and headers that could inject extra headers or SMTP commands
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { getConfig, MailConfig } from '@/services/config';
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// What an HTML email input accepts: no spaces, quotes, angle brackets or line breaks
+const EMAIL_PATTERN = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+$/;
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+/**
+ * Whether a customer-supplied address is safe to send to
+ */
+export function isValidEmail(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 254 && EMAIL_PATTERN.test(value);
+}
+
+/**
+ * Refuse a header value that would end the header line
+ * @throws Error if the value contains CR or LF
+ */
+function headerValue(name: string, value: string): string {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`${name} must not contain line breaks`);
+  }
+  return value;
+}
+
+/**
+ * Bare address from "Name <address>" or "address"
+ */
+function addressOf(mailbox: string): string {
+  const match = /<([^>]+)>/.exec(mailbox);
+  return (match ? match[1] : mailbox).trim();
+}
+
+/**
+ * RFC 2047 encoding for header values that are not plain ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(value: string): string {
+  return Buffer.from(value, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+/**
+ * Full RFC 5322 message with text and HTML alternatives
+ */
+export function toMime(message: EmailMessage, from: string): string {
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${headerValue('From', from)}`,
+    `To: ${headerValue('To', message.to)}`,
+    `Subject: ${encodeHeader(headerValue('Subject', message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n');
+}
+
+/**
+ * Prints each message instead of sending it
+ */
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`Email to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes each message into a maildir (tmp/, then moved into new/)
+ * Moving the finished file means readers never see a partial message
+ */
+export class MaildirTransport implements MailTransport {
+  name = 'maildir';
+
+  constructor(private directory: string, private from: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    ['tmp', 'new', 'cur'].forEach(folder => {
+      fs.mkdirSync(path.join(this.directory, folder), { recursive: true });
+    });
+
+    const fileName = `${Date.now()}.${process.pid}_${crypto.randomBytes(6).toString('hex')}.${os.hostname()}`;
+    const tempPath = path.join(this.directory, 'tmp', fileName);
+
+    await fs.promises.writeFile(tempPath, toMime(message, this.from));
+    await fs.promises.rename(tempPath, path.join(this.directory, 'new', fileName));
+  }
+}
+
+/**
+ * One SMTP conversation: sends commands and reads multi-line replies
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting?: { resolve: (reply: string) => void; reject: (error: Error) => void };
+  private failure?: Error;
+
+  constructor(private socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    this.waiting?.reject(this.failure);
+    this.waiting = undefined;
+  }
+
+  /**
+   * Hand over a reply once its last line ("250 ok", not "250-...") has arrived
+   */
+  private flush(): void {
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\r\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, newline));
+      this.buffer = this.buffer.slice(newline + 2);
+    }
+
+    const last = this.lines.findIndex(line => /^\d{3}( |$)/.test(line));
+    if (last === -1 || !this.waiting) return;
+
+    const reply = this.lines.splice(0, last + 1).join('\n');
+    this.waiting.resolve(reply);
+    this.waiting = undefined;
+  }
+
+  /**
+   * Wait for the next reply and check its code
+   * @param expected - Acceptable reply codes
+   */
+  read(expected: number[]): Promise<string> {
+    if (this.failure) return Promise.reject(this.failure);
+
+    const reply = new Promise<string>((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+    this.flush();
+
+    return reply.then(text => {
+      const code = Number(text.slice(0, 3));
+      if (!expected.includes(code)) {
+        throw new Error(`SMTP server replied ${text.split('\n').pop()}`);
+      }
+      return text;
+    });
+  }
+
+  command(line: string, expected: number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.read(expected);
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+}
+
+/**
+ * Sends through an SMTP server: a local sink in development or a relay in production
+ * Supports implicit TLS and AUTH PLAIN; one connection per message.
+ */
+export class SmtpTransport implements MailTransport {
+  name = 'smtp';
+
+  constructor(private options: MailConfig['smtp'], private from: string) {}
+
+  private connect(): Promise<net.Socket> {
+    const { host, port, secure } = this.options;
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+        : net.connect({ host, port }, () => resolve(socket));
+      socket.once('error', reject);
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    // Checked before connecting, since both end up in SMTP commands
+    headerValue('From', this.from);
+    headerValue('To', message.to);
+
+    const connection = new SmtpConnection(await this.connect());
+
+    try {
+      await connection.read([220]);
+      await connection.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (this.options.user && this.options.pass) {
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.pass}`).toString('base64');
+        await connection.command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await connection.command(`MAIL FROM:<${addressOf(this.from)}>`, [250]);
+      await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+
+      // Lines starting with a dot are doubled so they are not read as the end of the message
+      const body = toMime(message, this.from).replace(/^\./gm, '..');
+      await connection.command(`${body}\r\n.`, [250]);
+      await connection.command('QUIT', [221]);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+/**
+ * Transport selected by MAIL_TRANSPORT
+ */
+export function createTransport(config: MailConfig = getConfig().mail): MailTransport {
+  switch (config.transport) {
+    case 'maildir':
+      return new MaildirTransport(config.maildir, config.from);
+    case 'smtp':
+      return new SmtpTransport(config.smtp, config.from);
+    default:
+      return new ConsoleTransport();
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Customer Notifications
+ * Emails customers when their order's payment status changes
+ * Handles:
+ * - Order confirmation once a payment is received
+ * - Payment failed when PayNow declines a payment outright, or a pending one is cancelled, fails or times out
+ * - A reminder for payments still pending after MAIL_PENDING_REMINDER_MS
+ * - Sending each email at most once per order, across restarts
+ */
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { OrderStore } from '@/services/orders';
+import { pollDeadline } from '@/services/poller';
+import { getConfig } from '@/services/config';
+import { EmailTemplate, renderEmail } from '@/services/emailTemplates';
+import { createTransport, MailTransport } from '@/services/mail';
+import { Order, PaymentStatus } from '@/types/types';
+
+interface SentNotification {
+  reference: string;
+  template: EmailTemplate;
+  to: string;
+  transport: string;
+  sentAt: string;
+}
+
+interface NotificationFile {
+  sent: Record<string, SentNotification>; // Keyed by `${reference}:${template}`
+}
+
+/**
+ * Email owed for a change, if any
+ * @param previous - Status before the change, undefined for a new order
+ */
+function templateFor(order: Order, previous?: PaymentStatus): EmailTemplate | undefined {
+  if (order.status === 'paid' && (previous === 'pending' || previous === 'expired')) {
+    return 'order_confirmation';
+  }
+  // A new order is already failed when PayNow declined it at initiation
+  if ((previous === 'pending' || previous === undefined) && ['cancelled', 'failed', 'expired'].includes(order.status)) {
+    return 'payment_failed';
+  }
+  return undefined;
+}
+
+/**
+ * Notification Service
+ * Listens to every order change in this process and sends the matching email
+ */
+export class NotificationService {
+  private reminders = new Map<string, NodeJS.Timeout>();
+  private sending = new Set<string>();
+
+  constructor(
+    private orders: OrderStore = OrderStore.getInstance(),
+    private transport: MailTransport = createTransport(),
+    private filePath: string = process.env.NOTIFICATION_STORE_PATH || path.join(DATA_DIR, 'notifications.json')
+  ) {}
+
+  static getInstance(): NotificationService {
+    const holder = globalThis as unknown as { notificationService?: NotificationService };
+    if (!holder.notificationService) {
+      holder.notificationService = new NotificationService();
+      holder.notificationService.start();
+    }
+    return holder.notificationService;
+  }
+
+  /**
+   * Subscribe to order changes and reschedule reminders for orders still pending
+   */
+  start(): void {
+    this.orders.subscribeAll((order, previous) => this.handleChange(order, previous));
+
+    this.orders.list()
+      .filter(order => order.status === 'pending')
+      .forEach(order => this.scheduleReminder(order));
+  }
+
+  private handleChange(order: Order, previous?: PaymentStatus): void {
+    if (order.status === 'pending') {
+      this.scheduleReminder(order);
+    } else {
+      this.cancelReminder(order.reference);
+    }
+
+    const template = templateFor(order, previous);
+    if (template) {
+      this.notify(template, order);
+    }
+  }
+
+  private scheduleReminder(order: Order): void {
+    if (this.reminders.has(order.reference)) return;
+
+    const remindAt = new Date(order.createdAt).getTime() + getConfig().mail.pendingReminderMs;
+
+    // No point reminding once the poller has given up on the payment
+    if (remindAt >= pollDeadline(order)) return;
+
+    const timer = setTimeout(() => {
+      this.reminders.delete(order.reference);
+      const current = this.orders.get(order.reference);
+      if (current?.status === 'pending') {
+        this.notify('pending_reminder', current);
+      }
+    }, Math.max(0, remindAt - Date.now()));
+
+    timer.unref?.();
+    this.reminders.set(order.reference, timer);
+  }
+
+  private cancelReminder(reference: string): void {
+    clearTimeout(this.reminders.get(reference));
+    this.reminders.delete(reference);
+  }
+
+  /**
+   * Send an email for an order unless it has already been sent
+   * Delivery problems are logged, never thrown, so they cannot affect the payment itself
+   */
+  async notify(template: EmailTemplate, order: Order): Promise<void> {
+    const key = `${order.reference}:${template}`;
+    if (this.sending.has(key)) return;
+
+    this.sending.add(key);
+    try {
+      if (readJsonFile<NotificationFile>(this.filePath, { sent: {} }).sent[key]) return;
+
+      const email = renderEmail(template, order, getConfig().appUrl);
+      await this.transport.send({ to: order.customer.email, ...email });
+
+      const data = readJsonFile<NotificationFile>(this.filePath, { sent: {} });
+      data.sent[key] = {
+        reference: order.reference,
+        template,
+        to: order.customer.email,
+        transport: this.transport.name,
+        sentAt: new Date().toISOString()
+      };
+      writeJsonFile(this.filePath, data);
+    } catch (error) {
+      console.error('Failed to send email:', { reference: order.reference, template, error });
+    } finally {
+      this.sending.delete(key);
+    }
+  }
+}
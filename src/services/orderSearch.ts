@@ -0,0 +1,114 @@
+/**
+ * Order Search
+ * Filters the order ledger for the admin dashboard
+ * Handles:
+ * - Reading filters from a query string, ignoring values that do not parse
+ * - Status, method, currency, date range and amount filters
+ * - Free-text search by reference, email or phone
+ */
+import { bookedOn, PAYMENT_STATUSES } from '@/services/lifecycle';
+import { getPaymentMethod, PaymentMethodId } from '@/services/paymentMethods';
+import { Currency, Order, PaymentStatus } from '@/types/types';
+import { isSupportedCurrency } from '@/utils/currency';
+import { parseMoney } from '@/utils/money';
+
+export interface OrderFilters {
+  status?: PaymentStatus;
+  method?: PaymentMethodId;
+  currency?: Currency;
+  from?: string;      // First day included, YYYY-MM-DD (UTC), compared with lifecycle's bookedOn
+  to?: string;        // Last day included, YYYY-MM-DD (UTC)
+  minAmount?: string; // Decimal amount in the order's currency, e.g. "10.00"
+  maxAmount?: string;
+  q?: string;         // Reference, email or phone
+}
+
+type Query = Record<string, string | string[] | undefined>;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const AMOUNT_PATTERN = /^\d+(\.\d{1,2})?$/;
+
+function single(value: string | string[] | undefined): string | undefined {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+/**
+ * Filters from a request's query string
+ * Unknown or malformed values are dropped rather than rejected, so a bad link still shows orders
+ */
+export function parseOrderFilters(query: Query): OrderFilters {
+  const filters: OrderFilters = {};
+
+  const status = single(query.status);
+  if (status && (PAYMENT_STATUSES as readonly string[]).includes(status)) {
+    filters.status = status as PaymentStatus;
+  }
+
+  const method = getPaymentMethod(single(query.method));
+  if (method) filters.method = method.id;
+
+  const currency = single(query.currency);
+  if (isSupportedCurrency(currency)) filters.currency = currency;
+
+  const from = single(query.from);
+  if (from && DATE_PATTERN.test(from)) filters.from = from;
+
+  const to = single(query.to);
+  if (to && DATE_PATTERN.test(to)) filters.to = to;
+
+  const minAmount = single(query.minAmount);
+  if (minAmount && AMOUNT_PATTERN.test(minAmount)) filters.minAmount = minAmount;
+
+  const maxAmount = single(query.maxAmount);
+  if (maxAmount && AMOUNT_PATTERN.test(maxAmount)) filters.maxAmount = maxAmount;
+
+  const q = single(query.q);
+  if (q) filters.q = q;
+
+  return filters;
+}
+
+/**
+ * Digits only, so "+263 77 111 1111" matches "0771111111" by its local part
+ */
+function phoneDigits(value: string): string {
+  return value.replace(/\D/g, '').replace(/^(263|0)/, '');
+}
+
+function matchesSearch(order: Order, q: string): boolean {
+  const needle = q.toLowerCase();
+  if (order.reference.toLowerCase().includes(needle)) return true;
+  if (order.paynowReference?.toLowerCase().includes(needle)) return true;
+  if (order.customer.email.toLowerCase().includes(needle)) return true;
+
+  const digits = phoneDigits(q);
+  return digits.length >= 3 && !!order.customer.phone && phoneDigits(order.customer.phone).includes(digits);
+}
+
+/**
+ * Whether an order matches every filter
+ * Dates are the day the order was paid, or created if it never was, as in reconciliation.
+ */
+export function matchesFilters(order: Order, filters: OrderFilters): boolean {
+  if (filters.status && order.status !== filters.status) return false;
+  if (filters.method && order.method !== filters.method) return false;
+  if (filters.currency && order.amount.currency !== filters.currency) return false;
+
+  const day = bookedOn(order);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+
+  // Amounts compare in each order's own currency
+  if (filters.minAmount && order.amount.amount < parseMoney(filters.minAmount, order.amount.currency).amount) return false;
+  if (filters.maxAmount && order.amount.amount > parseMoney(filters.maxAmount, order.amount.currency).amount) return false;
+
+  return !filters.q || matchesSearch(order, filters.q);
+}
+
+/**
+ * Orders matching every filter, in the order given
+ */
+export function filterOrders(orders: Order[], filters: OrderFilters): Order[] {
+  return orders.filter(order => matchesFilters(order, filters));
+}
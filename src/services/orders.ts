@@ -0,0 +1,312 @@
+/**
+ * Order Ledger
+ * Persistent record of every payment the shop has initiated
+ * Handles:
+ * - Recording orders at initiation time
+ * - Lookup by payment reference
+ * - Status history for each order
+ * - Settling reserved stock when an order's outcome is known
+ * - Flagging paid orders that were short of stock, for an operator to resolve
+ * - Recording refunds and restocking returned units
+ * - Notifying in-process subscribers of new orders and status changes
+ */
+import { EventEmitter } from 'events';
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { applyTransition } from '@/services/lifecycle';
+import { classifyFailure } from '@/services/failures';
+import { InventoryService } from '@/services/inventory';
+import { RefundError, RefundRequest, statusAfterRefund, validateRefund } from '@/services/refunds';
+import { GatewayResponse, Order, OrderStatusChange, PaymentStatus, Refund } from '@/types/types';
+
+interface OrderFile {
+  orders: Record<string, Order>;
+}
+
+export type NewOrder = Omit<Order, 'history' | 'createdAt' | 'updatedAt'>;
+
+export type StatusListener = (order: Order) => void;
+
+/**
+ * Called for every order that is created or changes status
+ * @param previous - Status before the change, undefined for a new order
+ */
+export type OrderChangeListener = (order: Order, previous?: PaymentStatus) => void;
+
+// Event name for changes to any order; per-order events use the reference
+const ANY_ORDER = '*';
+
+/**
+ * Status change events, keyed by reference
+ * Held on globalThis so a change recorded by one API route reaches subscribers in another
+ */
+function statusEvents(): EventEmitter {
+  const holder = globalThis as unknown as { orderStatusEvents?: EventEmitter };
+  if (!holder.orderStatusEvents) {
+    holder.orderStatusEvents = new EventEmitter();
+    // One listener per open status stream, so there is no sensible cap
+    holder.orderStatusEvents.setMaxListeners(0);
+  }
+  return holder.orderStatusEvents;
+}
+
+/**
+ * Order Store
+ * File-backed ledger keyed by payment reference
+ * The file is re-read on every call so separate API routes never see stale data
+ */
+export class OrderStore {
+  private static instance: OrderStore;
+
+  constructor(
+    private filePath: string = process.env.ORDER_STORE_PATH || path.join(DATA_DIR, 'orders.json')
+  ) {}
+
+  static getInstance(): OrderStore {
+    if (!OrderStore.instance) {
+      OrderStore.instance = new OrderStore();
+    }
+    return OrderStore.instance;
+  }
+
+  private read(): OrderFile {
+    return readJsonFile<OrderFile>(this.filePath, { orders: {} });
+  }
+
+  private write(data: OrderFile): void {
+    writeJsonFile(this.filePath, data);
+  }
+
+  /**
+   * Record a newly initiated order
+   * @param order - Order details as sent to PayNow
+   * @param change - Initial status entry for the history
+   */
+  create(order: NewOrder, change?: Partial<OrderStatusChange>): Order {
+    const data = this.read();
+    if (data.orders[order.reference]) {
+      throw new Error(`Order ${order.reference} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const created: Order = {
+      ...order,
+      history: [{
+        source: 'initiate',
+        ...change,
+        status: order.status,
+        reason: change?.reason ?? classifyFailure(order.status, change?.message),
+        at: now
+      }],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    data.orders[order.reference] = created;
+    this.write(data);
+
+    statusEvents().emit(ANY_ORDER, created);
+    return created;
+  }
+
+  /**
+   * Look up an order by its payment reference
+   */
+  get(reference: string): Order | undefined {
+    return this.read().orders[reference];
+  }
+
+  /**
+   * All orders, newest first
+   */
+  list(): Order[] {
+    return Object.values(this.read().orders)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Visit every order, oldest first, waiting for each visit before the next
+   * Orders are handed over as recorded, without sorting or copying the list,
+   * so a caller streaming them out never holds a second copy of the ledger.
+   * @param visit - Return false to stop early
+   */
+  async forEachOrder(visit: (order: Order) => Promise<boolean | void> | boolean | void): Promise<void> {
+    const { orders } = this.read();
+    for (const reference in orders) {
+      if (await visit(orders[reference]) === false) return;
+    }
+  }
+
+  /**
+   * Merge gateway details into an order without touching its status
+   */
+  update(
+    reference: string,
+    changes: Partial<Pick<Order, 'pollUrl' | 'redirectUrl' | 'paynowReference'>>
+  ): Order {
+    const data = this.read();
+    const order = data.orders[reference];
+    if (!order) {
+      throw new Error(`Order ${reference} not found`);
+    }
+
+    const updated = { ...order, ...changes, updatedAt: new Date().toISOString() };
+    data.orders[reference] = updated;
+    this.write(data);
+    return updated;
+  }
+
+  /**
+   * Keep a raw PayNow reply or callback on the order
+   * A poll answering exactly as the previous one did is not stored again.
+   */
+  recordGatewayResponse(
+    reference: string,
+    source: GatewayResponse['source'],
+    fields: Record<string, string>
+  ): void {
+    const data = this.read();
+    const order = data.orders[reference];
+    if (!order) {
+      throw new Error(`Order ${reference} not found`);
+    }
+
+    const responses = order.gatewayResponses ?? [];
+    const previous = [...responses].reverse().find(response => response.source === source);
+    if (source === 'poll' && previous && JSON.stringify(previous.fields) === JSON.stringify(fields)) {
+      return;
+    }
+
+    data.orders[reference] = {
+      ...order,
+      gatewayResponses: [...responses, { at: new Date().toISOString(), source, fields }]
+    };
+    this.write(data);
+  }
+
+  /**
+   * Convert or release the order's reserved stock once its outcome is known
+   * A late payment on a timed out order is still committed.
+   * @returns Units paid for that were no longer in stock
+   */
+  private settleStock(previous: PaymentStatus, order: Order): Order['stockShortfall'] {
+    const inventory = InventoryService.getInstance();
+
+    if (order.status === 'paid' && (previous === 'pending' || previous === 'expired')) {
+      return inventory.commit(order.reference, order.items);
+    } else if (previous === 'pending' && ['cancelled', 'failed', 'expired'].includes(order.status)) {
+      inventory.release(order.reference);
+    }
+    return [];
+  }
+
+  /**
+   * Append a status change to an order's history and make it the current status
+   * @throws InvalidTransitionError if the lifecycle does not allow the change
+   */
+  recordStatus(reference: string, change: Omit<OrderStatusChange, 'at' | 'from'>): Order {
+    const data = this.read();
+    const order = data.orders[reference];
+    if (!order) {
+      throw new Error(`Order ${reference} not found`);
+    }
+
+    let updated = applyTransition(order, {
+      ...change,
+      reason: change.reason ?? classifyFailure(change.status, change.message)
+    });
+
+    data.orders[reference] = updated;
+    this.write(data);
+
+    if (order.status !== updated.status) {
+      // Paid after its reservation lapsed and the stock went to other orders
+      const shortfall = this.settleStock(order.status, updated) ?? [];
+      if (shortfall.length > 0) {
+        console.warn('Paid order is short of stock:', { reference, shortfall });
+        updated = { ...updated, stockShortfall: shortfall };
+        data.orders[reference] = updated;
+        this.write(data);
+      }
+
+      statusEvents().emit(reference, updated);
+      statusEvents().emit(ANY_ORDER, updated, order.status);
+    }
+    return updated;
+  }
+
+  /**
+   * Record money returned to the customer and move the order to refunded or partially refunded
+   * Returned units go back on sale.
+   * @param recordedBy - Staff username, or `paynow` for a refund PayNow reported
+   * @param change - Extra details for the history entry, e.g. the signed callback's hash
+   * @throws RefundError if the order cannot give back what is asked for
+   */
+  recordRefund(
+    reference: string,
+    request: RefundRequest,
+    recordedBy: string,
+    change?: Partial<Pick<OrderStatusChange, 'source' | 'gatewayStatus' | 'hash'>>
+  ): { order: Order; refund: Refund } {
+    const data = this.read();
+    const order = data.orders[reference];
+    if (!order) {
+      throw new Error(`Order ${reference} not found`);
+    }
+
+    const problems = validateRefund(order, request);
+    if (problems.length > 0) {
+      throw new RefundError(problems);
+    }
+
+    const refunds = order.refunds ?? [];
+    const refund: Refund = {
+      id: `${reference}-R${refunds.length + 1}`,
+      amount: request.amount,
+      reason: request.reason.trim(),
+      externalReference: request.externalReference.trim(),
+      items: request.items,
+      recordedBy,
+      at: new Date().toISOString()
+    };
+
+    const updated = applyTransition(
+      { ...order, refunds: [...refunds, refund] },
+      { status: statusAfterRefund(order, request.amount), source: 'refund', message: refund.reason, ...change }
+    );
+
+    data.orders[reference] = updated;
+    this.write(data);
+    InventoryService.getInstance().restock(refund.items);
+
+    if (order.status !== updated.status) {
+      statusEvents().emit(reference, updated);
+      statusEvents().emit(ANY_ORDER, updated, order.status);
+    }
+    return { order: updated, refund };
+  }
+
+  /**
+   * Listen for status changes on one order
+   * @returns Function that removes the listener
+   */
+  subscribe(reference: string, listener: StatusListener): () => void {
+    const events = statusEvents();
+    events.on(reference, listener);
+    return () => {
+      events.off(reference, listener);
+    };
+  }
+
+  /**
+   * Listen for new orders and status changes on every order
+   * @returns Function that removes the listener
+   */
+  subscribeAll(listener: OrderChangeListener): () => void {
+    const events = statusEvents();
+    events.on(ANY_ORDER, listener);
+    return () => {
+      events.off(ANY_ORDER, listener);
+    };
+  }
+}
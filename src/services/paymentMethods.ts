@@ -0,0 +1,177 @@
+/**
+ * Payment Method Registry
+ * Every way a shopper can pay, and what PayNow needs for each
+ * Handles:
+ * - PayNow method codes for express (remote) transactions
+ * - Required customer fields per method
+ * - Supported currencies and amount limits
+ * - Display metadata for the checkout page
+ *
+ * Documentation: https://developers.paynow.co.zw/docs/express_checkout.html
+ */
+import { Currency, formatMoney, Money, money } from '@/utils/money';
+import { exchangeRate } from '@/utils/currency';
+
+export type PaymentMethodId = 'web' | 'ecocash' | 'onemoney' | 'innbucks' | 'omari' | 'vmc';
+
+/**
+ * web: customer is redirected to PayNow to pay
+ * express: payment is requested from the customer's wallet or card without leaving the shop
+ */
+export type PaymentFlow = 'web' | 'express';
+
+/**
+ * Customer details a method may need on top of name and email
+ */
+export type PaymentField = 'phone' | 'token';
+
+export interface AmountLimits {
+  min: number; // Minor units
+  max: number; // Minor units
+}
+
+export interface PaymentMethod {
+  id: PaymentMethodId;
+  label: string;
+  description: string;
+  flow: PaymentFlow;
+  paynowMethod?: string; // `method` sent with express transactions
+  requiredFields: PaymentField[];
+  limits: Partial<Record<Currency, AmountLimits>>; // Currencies without limits are not supported
+}
+
+export type PaymentDetails = Partial<Record<PaymentField, string>>;
+
+/**
+ * Test Mode Configuration
+ * These numbers simulate different payment scenarios in test mode
+ * Documentation: https://developers.paynow.co.zw/docs/test_mode.html
+ */
+export const PAYNOW_TEST_NUMBERS = {
+  SUCCESS: '0771111111',     // Payment succeeds after 5 seconds
+  DELAYED: '0772222222',     // Payment succeeds after 30 seconds
+  CANCELLED: '0773333333',   // Payment fails after 30 seconds
+  INSUFFICIENT: '0774444444' // Immediate failure - insufficient balance
+} as const;
+
+export const PAYMENT_FIELD_LABELS: Record<PaymentField, string> = {
+  phone: 'Phone Number',
+  token: 'Card Token'
+};
+
+/**
+ * Limits for a method taking both currencies
+ * PayNow sets them in USD; the ZWG ones follow at the rate in data/rates.json.
+ */
+function usdAndZwg(usd: AmountLimits): PaymentMethod['limits'] {
+  const rate = exchangeRate('ZWG');
+  return {
+    USD: usd,
+    ZWG: { min: Math.round(usd.min * rate), max: Math.round(usd.max * rate) }
+  };
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  {
+    id: 'web',
+    label: 'Card Payment',
+    description: 'Pay on PayNow with a card, bank transfer or any wallet',
+    flow: 'web',
+    requiredFields: [],
+    limits: usdAndZwg({ min: 1, max: 1000000 })
+  },
+  {
+    id: 'ecocash',
+    label: 'EcoCash',
+    description: 'Approve the payment with your EcoCash PIN',
+    flow: 'express',
+    paynowMethod: 'ecocash',
+    requiredFields: ['phone'],
+    limits: usdAndZwg({ min: 1, max: 50000 })
+  },
+  {
+    id: 'onemoney',
+    label: 'OneMoney',
+    description: 'Approve the payment with your OneMoney PIN',
+    flow: 'express',
+    paynowMethod: 'onemoney',
+    requiredFields: ['phone'],
+    limits: usdAndZwg({ min: 1, max: 50000 })
+  },
+  {
+    id: 'innbucks',
+    label: 'InnBucks',
+    description: 'Pay with the authorisation code shown after checkout',
+    flow: 'express',
+    paynowMethod: 'innbucks',
+    requiredFields: [],
+    limits: {
+      USD: { min: 1, max: 100000 }
+    }
+  },
+  {
+    id: 'omari',
+    label: "O'mari",
+    description: "Confirm the payment with the OTP sent to your O'mari number",
+    flow: 'express',
+    paynowMethod: 'omari',
+    requiredFields: ['phone'],
+    limits: usdAndZwg({ min: 1, max: 100000 })
+  },
+  {
+    id: 'vmc',
+    label: 'Saved Card',
+    description: 'Charge a Visa or Mastercard previously saved with PayNow',
+    flow: 'express',
+    paynowMethod: 'vmc',
+    requiredFields: ['token'],
+    limits: {
+      USD: { min: 100, max: 1000000 }
+    }
+  }
+];
+
+/**
+ * Look up a method by id, e.g. from a request body
+ */
+export function getPaymentMethod(id: unknown): PaymentMethod | undefined {
+  return PAYMENT_METHODS.find(method => method.id === id);
+}
+
+/**
+ * Methods that can be offered for an order in this currency
+ */
+export function methodsForCurrency(currency: Currency): PaymentMethod[] {
+  return PAYMENT_METHODS.filter(method => method.limits[currency]);
+}
+
+/**
+ * Check an order can be paid with a method
+ * @param method - Method the shopper picked
+ * @param details - Customer details for the method's required fields
+ * @param amount - Order total
+ * @returns Problems keyed by field; `amount` for currency and limit problems
+ */
+export function validatePaymentDetails(
+  method: PaymentMethod,
+  details: PaymentDetails,
+  amount: Money
+): Partial<Record<PaymentField | 'amount', string>> {
+  const errors: Partial<Record<PaymentField | 'amount', string>> = {};
+
+  method.requiredFields.forEach(field => {
+    if (!details[field]?.trim()) {
+      errors[field] = `${PAYMENT_FIELD_LABELS[field]} is required for ${method.label}`;
+    }
+  });
+
+  const limits = method.limits[amount.currency];
+  if (!limits) {
+    errors.amount = `${method.label} is not available for ${amount.currency} payments`;
+  } else if (amount.amount < limits.min || amount.amount > limits.max) {
+    errors.amount = `${method.label} payments must be between ` +
+      `${formatMoney(money(limits.min, amount.currency))} and ${formatMoney(money(limits.max, amount.currency))}`;
+  }
+
+  return errors;
+}
@@ -3,37 +3,46 @@
  * Core integration with PayNow payment infrastructure
  * Handles: 
  * - Payment request creation
- * - Currency conversion
+ * - Per-currency integration credentials
  * - Response handling
  * - Status polling
  */
-import { Paynow } from 'paynow';
+import { InitResponse, Paynow } from 'paynow';
 import { CartItem } from '@/types/types';
+import { fromGatewayStatus, PaymentStatus } from '@/services/lifecycle';
+import { PaymentDetails, PaymentMethod } from '@/services/paymentMethods';
+import { getConfig } from '@/services/config';
+import { generateReference } from '@/utils/reference';
+import { Currency, sumMoney, toDecimalString } from '@/utils/money';
+import { BASE_CURRENCY, lineTotal } from '@/utils/currency';
 
 /**
- * Test Mode Configuration
- * These numbers simulate different payment scenarios in test mode
- * Documentation: https://developers.paynow.co.zw/docs/test_mode.html
+ * Express Checkout Response
+ * Represents the possible states of an express (mobile money or saved card) payment
  */
-export const PAYNOW_TEST_NUMBERS = {
-  SUCCESS: '0771111111',     // Payment succeeds after 5 seconds
-  DELAYED: '0772222222',     // Payment succeeds after 30 seconds
-  CANCELLED: '0773333333',   // Payment fails after 30 seconds
-  INSUFFICIENT: '0774444444' // Immediate failure - insufficient balance
-} as const;
-
-/**
- * Mobile Money Express Checkout Response
- * Represents the possible states of a mobile payment
- */
-export interface MobilePaymentResponse {
+export interface ExpressPaymentResponse {
   success: boolean;
   error?: string;
   pollUrl?: string;
   instructions?: string;
-  status: 'pending' | 'paid' | 'cancelled' | 'failed';
+  status: PaymentStatus;
   redirectUrl?: string;
-  reference?: string;
+  reference: string;
+  gatewayResponse?: Record<string, string>; // Raw fields PayNow answered with
+}
+
+/**
+ * Status update posted by PayNow to the result URL
+ * Only produced once the hash has been verified against the integration key
+ */
+export interface PaymentStatusUpdate {
+  reference: string;
+  paynowReference?: string;
+  amount?: string;
+  pollUrl?: string;
+  status: PaymentStatus;
+  gatewayStatus: string;
+  hash: string;
 }
 
 interface PaymentResponse {
@@ -43,7 +52,13 @@ interface PaymentResponse {
   pollUrl?: string;
   reference: string;
   instructions?: string;
-  status?: 'pending' | 'paid' | 'cancelled' | 'failed';
+  status?: PaymentStatus;
+  gatewayResponse?: Record<string, string>; // Raw fields PayNow answered with
+}
+
+interface GatewayReply {
+  response: InitResponse | null;
+  fields: Record<string, string>;
 }
 
 /**
@@ -51,65 +66,159 @@ interface PaymentResponse {
  * Handles integration with PayNow payment gateway
  * Features:
  * - Web payments (credit cards/bank transfers)
- * - Mobile money payments (EcoCash, OneMoney)
- * - Test mode simulation
+ * - Express payments for every method in the payment method registry
+ * - One integration per currency (USD, ZWG)
+ * - Configurable gateway base URL (real PayNow or local emulator)
  * - Payment status polling
  */
 export class PaynowService {
-  private paynow: any;
-  private static instance: PaynowService;
-
-  constructor() {
-    // Validate critical environment configuration
-    if (!process.env.NEXT_PUBLIC_PAYNOW_INTEGRATION_ID || 
-        !process.env.NEXT_PUBLIC_PAYNOW_INTEGRATION_KEY) {
-      throw new Error('PayNow credentials not found in environment variables');
+  private paynow: Paynow;
+  private integrationId: string;
+  private integrationKey: string;
+  private baseUrl: string;
+  private merchantEmail?: string;
+  private referencePrefix: string;
+
+  /**
+   * @param currency - Currency payments are charged in; selects the integration
+   */
+  constructor(private currency: Currency = BASE_CURRENCY) {
+    const config = getConfig();
+    const integration = config.integrations[currency];
+
+    // Only the base currency integration is mandatory
+    if (!integration) {
+      throw new Error(`PayNow ${currency} credentials not found in environment variables`);
     }
 
     // Initialize PayNow SDK with credentials
-    this.paynow = new Paynow(
-      process.env.NEXT_PUBLIC_PAYNOW_INTEGRATION_ID,
-      process.env.NEXT_PUBLIC_PAYNOW_INTEGRATION_KEY
-    );
+    this.integrationId = integration.id;
+    this.integrationKey = integration.key;
+    this.paynow = new Paynow(this.integrationId, this.integrationKey);
     
     // Set return URLs
-    this.paynow.resultUrl = process.env.PAYNOW_RESULT_URL || '/api/payment/update';
-    this.paynow.returnUrl = process.env.PAYNOW_RETURN_URL || '/payment/success';
+    this.paynow.resultUrl = config.resultUrl;
+    this.paynow.returnUrl = config.returnUrl;
+
+    this.baseUrl = config.gatewayUrl;
+    this.merchantEmail = config.merchantEmail;
+    this.referencePrefix = config.referencePrefix;
+  }
+
+  /**
+   * Build signed request fields for a payment
+   * Web and mobile payments share this, so the same cart always submits the same amount.
+   * The amount is the exact decimal of the integer-cent total rather than a float sum.
+   * @param reference - Merchant reference
+   * @param authEmail - Email PayNow associates with the payment
+   * @param items - Priced cart items
+   * @param extra - Method specific fields (phone, method) for express checkout
+   */
+  private buildRequest(
+    reference: string,
+    authEmail: string,
+    items: CartItem[],
+    extra: Record<string, string> = {}
+  ): Record<string, string> {
+    const total = sumMoney(items.map(item => lineTotal(item, this.currency)), this.currency);
+
+    if (items.length === 0) {
+      throw new Error('You need to have at least one item in cart');
+    }
+    if (total.amount <= 0) {
+      throw new Error('The total should be greater than zero');
+    }
+
+    // The customer comes back to a page that can look the order up and verify it
+    const returnUrl = new URL(this.paynow.returnUrl);
+    returnUrl.searchParams.set('reference', reference);
+
+    const fields: Record<string, string> = {
+      resulturl: this.paynow.resultUrl,
+      returnurl: returnUrl.toString(),
+      reference,
+      amount: toDecimalString(total),
+      id: this.integrationId,
+      additionalinfo: items.map(item => `${item.name} x${item.quantity}`).join(', '),
+      authemail: authEmail,
+      ...extra,
+      status: 'Message'
+    };
+
+    // Encoded and signed exactly as the SDK does, so PayNow verifies it the same way
+    Object.keys(fields).forEach(key => {
+      fields[key] = encodeURI(fields[key]);
+    });
+    fields.hash = this.paynow.generateHash(fields, this.integrationKey);
+
+    return fields;
+  }
+
+  /**
+   * Post to a gateway URL and verify the answer
+   * Responses are verified by the SDK; the raw fields are kept for the order's records
+   * @param url - Absolute gateway URL
+   * @param data - Signed request fields, if any
+   */
+  private async post(url: string, data?: Record<string, string>): Promise<GatewayReply> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: data ? new URLSearchParams(data).toString() : undefined
+    });
+
+    if (!response.ok) {
+      throw new Error(`PayNow responded with HTTP ${response.status}`);
+    }
+
+    const body = await response.text();
+    return {
+      response: this.paynow.parse(body),
+      fields: Object.fromEntries(new URLSearchParams(body))
+    };
+  }
+
+  /**
+   * Post a signed request to the gateway
+   * The SDK only talks to the hardcoded PayNow host, so requests are sent from
+   * here to honour the configured base URL
+   * @param path - Gateway endpoint, e.g. /interface/initiatetransaction
+   * @param data - Signed request fields
+   */
+  private submit(path: string, data: Record<string, string>): Promise<GatewayReply> {
+    return this.post(`${this.baseUrl}${path}`, data);
   }
 
   /**
    * Generates unique transaction reference
-   * Format: INV-{random alphanumeric string}
-   * Ensures no collision between transactions
+   * Format: {PAYNOW_REFERENCE_PREFIX}-{time}{random}{check}, see utils/reference.ts
+   * Time-sortable, and safe against collisions within and across processes
    */
-  private generateReference(): string {
-    return `INV-${Math.random().toString(36).substr(2, 9)}`;
+  generateReference(): string {
+    return generateReference(this.referencePrefix);
   }
 
   /**
    * Initiate web-based payment (credit cards/bank transfers)
+   * @param reference - Merchant reference for this order
    * @param items - Array of cart items with pricing
    * @param email - Customer email for receipt
    * @returns Payment gateway response with redirect URL
    */
-  async initiateWebPayment(items: CartItem[], email: string): Promise<PaymentResponse> {
+  async initiateWebPayment(reference: string, items: CartItem[], email: string): Promise<PaymentResponse> {
+    let gatewayResponse: Record<string, string> | undefined;
+
     try {
-      const reference = this.generateReference();
-      
-      // Create base payment object
-      const payment = this.paynow.createPayment(
-        reference, 
-        process.env.NEXT_PUBLIC_PAYNOW_MERCHANT_EMAIL // Merchant account email
+      // Merchant account email is required in test mode
+      const request = this.buildRequest(
+        reference,
+        this.merchantEmail || email,
+        items
       );
 
-      // Add items with currency conversion (USD to cents)
-      items.forEach(item => {
-        const amount = Math.round(item.price * 100) * item.quantity;
-        payment.add(item.name, amount);
-      });
-
       // Submit payment to PayNow
-      const response = await this.paynow.send(payment);
+      const { response, fields } = await this.submit('/interface/initiatetransaction', request);
+      gatewayResponse = fields;
       
       // Validate gateway response
       if (!response?.success) {
@@ -120,37 +229,50 @@ export class PaynowService {
         success: true,
         redirectUrl: response.redirectUrl,
         pollUrl: response.pollUrl,
-        reference
+        reference,
+        gatewayResponse
       };
     } catch (error) {
       console.error('Payment failed:', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        reference: this.generateReference()
+        // Always the reference PayNow was sent, so the failed attempt can be traced
+        reference,
+        gatewayResponse
       };
     }
   }
 
   /**
-   * Initiate mobile money payment
-   * Handles express checkout for EcoCash and OneMoney
+   * Initiate an express payment
+   * Handles express checkout for every express method in the registry
+   * @param method - Registry entry the shopper picked
+   * @param details - Values for the method's required fields (phone, card token)
    */
-  async initiateMobilePayment(
-    items: CartItem[], 
+  async initiateExpressPayment(
+    reference: string,
+    items: CartItem[],
     email: string,
-    phone: string,
-    method: 'ecocash' | 'onemoney'
-  ): Promise<MobilePaymentResponse> {
+    method: PaymentMethod,
+    details: PaymentDetails
+  ): Promise<ExpressPaymentResponse> {
+    let gatewayResponse: Record<string, string> | undefined;
+
     try {
-      const reference = this.generateReference();
-      const payment = this.paynow.createPayment(reference, email);
+      if (method.flow !== 'express' || !method.paynowMethod) {
+        throw new Error(`${method.label} does not support express checkout`);
+      }
 
-      items.forEach(item => {
-        payment.add(item.name, item.price * item.quantity);
+      const fields: Record<string, string> = { method: method.paynowMethod };
+      method.requiredFields.forEach(field => {
+        fields[field] = details[field] || '';
       });
 
-      const response = await this.paynow.sendMobile(payment, phone, method);
+      // Merchant account email is required in test mode
+      const request = this.buildRequest(reference, this.merchantEmail || email, items, fields);
+      const { response, fields: reply } = await this.submit('/interface/remotetransaction', request);
+      gatewayResponse = reply;
 
       if (!response?.success) {
         // Pass through the specific error from PayNow
@@ -162,107 +284,87 @@ export class PaynowService {
         instructions: response.instructions,
         pollUrl: response.pollUrl,
         status: 'pending',
-        reference
+        reference,
+        gatewayResponse
       };
     } catch (error) {
-      console.error('Mobile payment failed:', error);
+      console.error('Express payment failed:', { method: method.id, error });
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error',
-        status: 'failed'
+        status: 'failed',
+        reference,
+        gatewayResponse
       };
     }
   }
 
+  /**
+   * Parse and verify a result URL callback from PayNow
+   * @param body - Raw URL-encoded request body as received
+   * @returns Verified status update
+   * @throws If the body is empty or the hash does not match
+   */
+  parseStatusUpdate(body: string): PaymentStatusUpdate {
+    // SDK recomputes the SHA512 hash over the posted fields and throws on mismatch
+    const update = this.paynow.parseStatusUpdate(body);
+
+    if (update.error || !update.reference) {
+      throw new Error(update.error || 'Status update is missing a reference');
+    }
+
+    const gatewayStatus = String(update.status || '');
+    const hash = new URLSearchParams(body).get('hash') || '';
+
+    return {
+      reference: update.reference,
+      paynowReference: update.paynowReference,
+      amount: update.amount,
+      pollUrl: update.pollUrl,
+      status: fromGatewayStatus(gatewayStatus),
+      gatewayStatus,
+      hash
+    };
+  }
+
   /**
    * Poll payment status
    * @param pollUrl - Status URL from initial response
    * @returns Payment status update
    */
-  async checkPaymentStatus(
-    pollUrl: string, 
-    phone?: string, 
-    startTime?: number
-  ): Promise<{
+  async checkPaymentStatus(pollUrl: string): Promise<{
     paid: boolean;
-    status: 'pending' | 'paid' | 'cancelled' | 'failed';
+    status: PaymentStatus;
+    gatewayStatus?: string;
     error?: string;
+    gatewayResponse?: Record<string, string>;
   }> {
     try {
-      const status = await this.paynow.pollTransaction(pollUrl);
-      const elapsedTime = startTime ? Date.now() - startTime : 0;
+      // Same request as the SDK's pollTransaction, keeping the raw reply
+      const { response: status, fields } = await this.post(pollUrl);
+      if (!status) {
+        throw new Error('Empty response from PayNow');
+      }
 
       // Log the response for debugging
       console.log('PayNow status response:', status);
 
-      // In test mode, simulate different scenarios based on phone numbers
-      if (process.env.NODE_ENV === 'development' && phone) {
-        switch(phone) {
-          case PAYNOW_TEST_NUMBERS.DELAYED:
-            if (elapsedTime < 30000) {
-              console.log('Delayed payment still pending:', elapsedTime);
-              return { 
-                paid: false, 
-                status: 'pending',
-                error: 'Payment processing...'
-              };
-            }
-            console.log('Delayed payment complete');
-            return { 
-              paid: true, 
-              status: 'paid' 
-            };
-
-          case PAYNOW_TEST_NUMBERS.CANCELLED:
-            if (elapsedTime < 30000) {
-              return { 
-                paid: false, 
-                status: 'pending',
-                error: 'Waiting for customer response...'
-              };
-            }
-            return { 
-              paid: false, 
-              status: 'cancelled',
-              error: 'Payment was cancelled by the user'
-            };
-
-          case PAYNOW_TEST_NUMBERS.SUCCESS:
-            if (elapsedTime < 5000) {
-              return { 
-                paid: false, 
-                status: 'pending',
-                error: 'Processing payment...'
-              };
-            }
-            return { 
-              paid: true, 
-              status: 'paid' 
-            };
-
-          case PAYNOW_TEST_NUMBERS.INSUFFICIENT:
-            return {
-              paid: false,
-              status: 'failed',
-              error: 'Insufficient balance in your account'
-            };
-        }
-      }
-
-      // For production or non-test numbers, use actual PayNow response
-      const paymentStatus = status.status?.toLowerCase() || 'pending';
+      const paymentStatus = fromGatewayStatus(status.status);
       
       return {
-        paid: paymentStatus === 'paid' || paymentStatus === 'complete' || paymentStatus === 'confirmed',
-        status: paymentStatus as 'pending' | 'paid' | 'cancelled' | 'failed',
-        error: status.error
+        paid: paymentStatus === 'paid',
+        status: paymentStatus,
+        gatewayStatus: status.status,
+        error: status.error,
+        gatewayResponse: fields
       };
 
     } catch (error) {
+      // A failed poll says nothing about the payment itself, so it stays pending
       console.error('Status check failed:', error);
       return {
         paid: false,
-        status: 'failed',
+        status: 'pending',
         error: error instanceof Error ? error.message : 'Failed to check payment status'
       };
     }
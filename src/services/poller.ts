@@ -0,0 +1,164 @@
+/**
+ * Payment Status Poller
+ * Server-side worker that follows pending payments to their outcome
+ * Handles:
+ * - Polling PayNow for every pending order, with backoff
+ * - Recording status changes on the order
+ * - Timing out orders that never settle
+ * - Picking up pending orders again after a server restart
+ *
+ * The browser only observes order status; it never drives polling.
+ */
+import { OrderStore } from '@/services/orders';
+import { PaynowService } from '@/services/paynow';
+import { canTransition, isSettled } from '@/services/lifecycle';
+import { getConfig } from '@/services/config';
+import { Order } from '@/types/types';
+
+const MAX_DELAY_MS = 60 * 1000;
+const BACKOFF_FACTOR = 1.5;
+
+/**
+ * When the poller gives up on an order
+ * Set by PAYNOW_POLL_DEADLINE_MS, measured from initiation
+ */
+export function pollDeadline(order: Order): number {
+  return new Date(order.createdAt).getTime() + getConfig().polling.deadlineMs;
+}
+
+/**
+ * Payment Poller
+ * One timer per pending reference; the timer is dropped once the order settles
+ */
+export class PaymentPoller {
+  private timers = new Map<string, NodeJS.Timeout>();
+  private lastChecked = new Map<string, number>(); // When PayNow was last asked, by reference
+
+  constructor(private orders: OrderStore = OrderStore.getInstance()) {}
+
+  static getInstance(): PaymentPoller {
+    const holder = globalThis as unknown as { paymentPoller?: PaymentPoller };
+    if (!holder.paymentPoller) {
+      holder.paymentPoller = new PaymentPoller();
+      holder.paymentPoller.resume();
+    }
+    return holder.paymentPoller;
+  }
+
+  /**
+   * Start following an order until it settles or times out
+   * Tracking an order that is already followed is a no-op
+   */
+  track(reference: string): void {
+    if (!this.timers.has(reference)) {
+      this.schedule(reference, getConfig().polling.intervalMs);
+    }
+  }
+
+  /**
+   * Follow every order still pending in the ledger, e.g. after a restart
+   */
+  resume(): void {
+    this.orders.list()
+      .filter(order => order.status === 'pending' && order.pollUrl)
+      .forEach(order => this.track(order.reference));
+  }
+
+  private schedule(reference: string, delay: number): void {
+    const timer = setTimeout(() => {
+      this.poll(reference, delay).catch(error => {
+        console.error('Payment poll failed:', { reference, error });
+        this.schedule(reference, this.nextDelay(delay));
+      });
+    }, delay);
+
+    timer.unref?.();
+    this.timers.set(reference, timer);
+  }
+
+  private nextDelay(delay: number): number {
+    return Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+  }
+
+  private stop(reference: string): void {
+    clearTimeout(this.timers.get(reference));
+    this.timers.delete(reference);
+    this.lastChecked.delete(reference);
+  }
+
+  /**
+   * Ask PayNow about one order right away, e.g. when the customer returns from PayNow
+   * @param maxAgeMs - Use the stored status if PayNow was asked this recently
+   * @returns The order as stored after any status change was recorded
+   */
+  async refresh(reference: string, maxAgeMs: number = 0): Promise<Order | undefined> {
+    const order = this.orders.get(reference);
+    if (!order?.pollUrl || isSettled(order.status)) {
+      return order;
+    }
+    if (Date.now() - (this.lastChecked.get(reference) ?? 0) < maxAgeMs) {
+      return order;
+    }
+
+    const updated = await this.checkGateway(order);
+    if (isSettled(updated.status)) {
+      this.stop(reference);
+    }
+    return this.orders.get(reference);
+  }
+
+  /**
+   * Poll PayNow and record the status if it moved the order on
+   */
+  private async checkGateway(order: Order): Promise<Order> {
+    this.lastChecked.set(order.reference, Date.now());
+    const paymentStatus = await new PaynowService(order.amount.currency).checkPaymentStatus(order.pollUrl as string);
+    if (paymentStatus.gatewayResponse) {
+      this.orders.recordGatewayResponse(order.reference, 'poll', paymentStatus.gatewayResponse);
+    }
+
+    // Re-read in case a callback landed while PayNow was being polled
+    const current = this.orders.get(order.reference) || order;
+    if (paymentStatus.status === current.status || !canTransition(current.status, paymentStatus.status)) {
+      return current;
+    }
+
+    const updated = this.orders.recordStatus(order.reference, {
+      status: paymentStatus.status,
+      source: 'poll',
+      gatewayStatus: paymentStatus.gatewayStatus,
+      message: paymentStatus.error
+    });
+    console.log('Payment status polled:', { reference: order.reference, status: updated.status });
+    return updated;
+  }
+
+  private async poll(reference: string, delay: number): Promise<void> {
+    const order = this.orders.get(reference);
+
+    // Settled elsewhere, e.g. by the result URL callback
+    if (!order?.pollUrl || isSettled(order.status)) {
+      this.stop(reference);
+      return;
+    }
+
+    if (Date.now() >= pollDeadline(order)) {
+      this.orders.recordStatus(reference, {
+        status: 'expired',
+        source: 'poll',
+        message: 'No response from PayNow before the payment timed out'
+      });
+      console.log('Payment timed out:', { reference });
+      this.stop(reference);
+      return;
+    }
+
+    const updated = await this.checkGateway(order);
+    if (isSettled(updated.status)) {
+      this.stop(reference);
+      return;
+    }
+
+    this.schedule(reference, this.nextDelay(delay));
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Receipt Documents
+ * Renders a paid order's receipt for customers and accountants
+ * Handles:
+ * - Branded HTML page (printable)
+ * - PDF download
+ *
+ * Both formats carry the same fields: references, line items, totals,
+ * refunds and net amount, currency, payment method and paid time.
+ */
+import { STATUS_LABELS } from '@/services/lifecycle';
+import { Receipt } from '@/types/types';
+import { escapeHtml } from '@/utils/html';
+import { formatMoney } from '@/utils/money';
+import { PdfColor, PdfDocument } from '@/utils/pdf';
+
+export const STORE_NAME = process.env.STORE_NAME || 'Store';
+
+const BRAND_COLOR: PdfColor = [0.231, 0.51, 0.965]; // #3b82f6, the shop's accent blue
+const MUTED_COLOR: PdfColor = [0.42, 0.45, 0.5];
+
+/**
+ * Time in a fixed timezone, so every copy of a receipt reads the same
+ */
+function formatTimestamp(at: string | null): string {
+  if (!at) return 'Not recorded';
+
+  const formatted = new Intl.DateTimeFormat('en-GB', {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone: 'UTC'
+  }).format(new Date(at));
+  return `${formatted} UTC`;
+}
+
+/**
+ * Label/amount rows below the line items: refunds and what was kept, if anything was refunded
+ */
+function refundRows(receipt: Receipt): [string, string][] {
+  if (receipt.refunds.length === 0) return [];
+
+  return [
+    ...receipt.refunds.map(refund => [
+      `Refunded ${formatTimestamp(refund.at)}: ${refund.reason}`,
+      formatMoney({ ...refund.amount, amount: -refund.amount.amount })
+    ] as [string, string]),
+    [`Net paid (${receipt.netTotal.currency})`, formatMoney(receipt.netTotal)]
+  ];
+}
+
+/**
+ * Shorten text with an ellipsis so it fits a PDF column at the default size
+ */
+function fitText(pdf: PdfDocument, value: string, maxWidth: number): string {
+  if (pdf.textWidth(value, 10) <= maxWidth) return value;
+
+  let shortened = value;
+  while (shortened.length > 0 && pdf.textWidth(`${shortened}...`, 10) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened.trimEnd()}...`;
+}
+
+/**
+ * Label/value pairs shown above the line items
+ */
+function receiptDetails(receipt: Receipt): [string, string][] {
+  return [
+    ['Order reference', receipt.reference],
+    ['PayNow reference', receipt.paynowReference ?? 'Not recorded'],
+    ['Paid on', formatTimestamp(receipt.paidAt)],
+    ['Payment method', receipt.method],
+    ['Currency', receipt.total.currency],
+    ['Status', STATUS_LABELS[receipt.status]],
+    ['Billed to', receipt.customer.name],
+    ['Email', receipt.customer.email]
+  ];
+}
+
+/**
+ * Standalone HTML receipt
+ * @param pdfUrl - Link to the PDF version, omitted if not given
+ */
+export function renderReceiptHtml(receipt: Receipt, pdfUrl?: string): string {
+  const details = receiptDetails(receipt)
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  const lines = receipt.lines
+    .map(line => `
+        <tr>
+          <td>${escapeHtml(line.name)}</td>
+          <td class="number">${line.quantity}</td>
+          <td class="number">${escapeHtml(formatMoney(line.unitPrice))}</td>
+          <td class="number">${escapeHtml(formatMoney(line.total))}</td>
+        </tr>`)
+    .join('');
+
+  const refunds = refundRows(receipt)
+    .map(([label, value]) => `
+          <tr class="refund"><td colspan="3">${escapeHtml(label)}</td><td class="number">${escapeHtml(value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Receipt ${escapeHtml(receipt.reference)} - ${escapeHtml(STORE_NAME)}</title>
+  <style>
+    body { font-family: Helvetica, Arial, sans-serif; color: #111827; background: #f3f4f6; margin: 0; padding: 32px 16px; }
+    main { max-width: 640px; margin: 0 auto; background: #fff; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+    header { background: #3b82f6; color: #fff; padding: 24px 32px; display: flex; justify-content: space-between; align-items: baseline; }
+    header h1 { margin: 0; font-size: 24px; }
+    section { padding: 24px 32px; }
+    table { width: 100%; border-collapse: collapse; }
+    .details th { text-align: left; font-weight: normal; color: #6b7280; padding: 4px 0; width: 40%; }
+    .details td { padding: 4px 0; }
+    .lines th { text-align: left; color: #6b7280; font-weight: normal; border-bottom: 1px solid #e5e7eb; padding: 8px 0; }
+    .lines td { border-bottom: 1px solid #f3f4f6; padding: 8px 0; }
+    .lines .number { text-align: right; }
+    .lines tfoot td { border: none; font-weight: bold; padding-top: 16px; }
+    .lines tfoot .refund td { font-weight: normal; color: #6b7280; padding-top: 4px; }
+    .lines tfoot .refund:last-child td { font-weight: bold; color: #111827; }
+    footer { padding: 16px 32px 24px; color: #6b7280; font-size: 14px; display: flex; justify-content: space-between; }
+    @media print { body { background: #fff; padding: 0; } main { box-shadow: none; } .no-print { display: none; } }
+  </style>
+</head>
+<body>
+  <main>
+    <header>
+      <h1>${escapeHtml(STORE_NAME)}</h1>
+      <span>Receipt</span>
+    </header>
+    <section>
+      <table class="details">${details}</table>
+    </section>
+    <section>
+      <table class="lines">
+        <thead>
+          <tr><th>Item</th><th class="number">Qty</th><th class="number">Unit price</th><th class="number">Total</th></tr>
+        </thead>
+        <tbody>${lines}
+        </tbody>
+        <tfoot>
+          <tr><td colspan="3">Total (${escapeHtml(receipt.total.currency)})</td><td class="number">${escapeHtml(formatMoney(receipt.total))}</td></tr>${refunds}
+        </tfoot>
+      </table>
+    </section>
+    <footer>
+      <span>Paid via PayNow</span>
+      ${pdfUrl ? `<a class="no-print" href="${escapeHtml(pdfUrl)}">Download PDF</a>` : ''}
+    </footer>
+  </main>
+</body>
+</html>`;
+}
+
+/**
+ * PDF receipt on A4, continuing onto further pages for long orders
+ */
+export function renderReceiptPdf(receipt: Receipt): Buffer {
+  const pdf = new PdfDocument();
+  const margin = 56;
+  const right = pdf.width - margin;
+  const columns = { quantity: right - 190, unitPrice: right - 90 };
+
+  // Branded header band
+  pdf.rect(0, 0, pdf.width, 80, BRAND_COLOR);
+  pdf.text(STORE_NAME, margin, 50, { size: 22, font: 'bold', color: [1, 1, 1] });
+  pdf.text('Receipt', right, 50, { size: 14, color: [1, 1, 1], align: 'right' });
+
+  let y = 120;
+  receiptDetails(receipt).forEach(([label, value]) => {
+    pdf.text(label, margin, y, { color: MUTED_COLOR });
+    pdf.text(value, margin + 150, y);
+    y += 16;
+  });
+
+  const lineHeader = () => {
+    pdf.text('Item', margin, y, { color: MUTED_COLOR });
+    pdf.text('Qty', columns.quantity, y, { color: MUTED_COLOR, align: 'right' });
+    pdf.text('Unit price', columns.unitPrice, y, { color: MUTED_COLOR, align: 'right' });
+    pdf.text('Total', right, y, { color: MUTED_COLOR, align: 'right' });
+    pdf.line(margin, y + 6, right, y + 6, MUTED_COLOR);
+    y += 24;
+  };
+
+  y += 24;
+  lineHeader();
+
+  receipt.lines.forEach(line => {
+    if (y > pdf.height - margin - 60) {
+      pdf.addPage();
+      y = margin;
+      lineHeader();
+    }
+    // Leaves room for the right-aligned quantity
+    pdf.text(fitText(pdf, line.name, columns.quantity - margin - 40), margin, y);
+    pdf.text(String(line.quantity), columns.quantity, y, { align: 'right' });
+    pdf.text(formatMoney(line.unitPrice), columns.unitPrice, y, { align: 'right' });
+    pdf.text(formatMoney(line.total), right, y, { align: 'right' });
+    y += 18;
+  });
+
+  pdf.line(margin, y - 6, right, y - 6, MUTED_COLOR);
+  y += 12;
+  pdf.text(`Total (${receipt.total.currency})`, margin, y, { size: 12, font: 'bold' });
+  pdf.text(formatMoney(receipt.total), right, y, { size: 12, font: 'bold', align: 'right' });
+
+  const refunds = refundRows(receipt);
+  refunds.forEach(([label, value], index) => {
+    const isNet = index === refunds.length - 1;
+    y += 18;
+    if (y > pdf.height - margin - 20) {
+      pdf.addPage();
+      y = margin;
+    }
+    pdf.text(fitText(pdf, label, columns.unitPrice - margin), margin, y, isNet ? { size: 12, font: 'bold' } : { color: MUTED_COLOR });
+    pdf.text(value, right, y, isNet ? { size: 12, font: 'bold', align: 'right' } : { color: MUTED_COLOR, align: 'right' });
+  });
+
+  pdf.text('Paid via PayNow', margin, pdf.height - margin, { size: 9, color: MUTED_COLOR });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,164 @@
+/**
+ * Statement Reconciliation
+ * Compares a PayNow merchant statement with the order ledger
+ * Handles:
+ * - Matching statement lines to orders by merchant reference, then PayNow reference
+ * - Flagging lines with no order, repeated lines, and amount or status differences
+ * - Flagging paid orders in the statement period that PayNow did not list
+ */
+import { bookedOn, fromGatewayStatus, STATUS_LABELS, wasPaid } from '@/services/lifecycle';
+import { StatementLine } from '@/services/statements';
+import { Order, PaymentStatus } from '@/types/types';
+import { formatMoney, money } from '@/utils/money';
+
+export const DISCREPANCY_TYPES = [
+  'missing_order',
+  'missing_from_statement',
+  'duplicate',
+  'amount_mismatch',
+  'status_mismatch'
+] as const;
+
+export type DiscrepancyType = typeof DISCREPANCY_TYPES[number];
+
+export const DISCREPANCY_LABELS: Record<DiscrepancyType, string> = {
+  missing_order: 'No matching order',
+  missing_from_statement: 'Missing from statement',
+  duplicate: 'Duplicate line',
+  amount_mismatch: 'Amount differs',
+  status_mismatch: 'Status differs'
+};
+
+export interface Discrepancy {
+  id: string;
+  type: DiscrepancyType;
+  reference: string;
+  line?: number;             // Statement line, if the discrepancy comes from one
+  message: string;
+  resolution?: {
+    note: string;
+    by: string;              // Staff username
+    at: string;
+  };
+}
+
+export interface ReconciliationReport {
+  id: string;
+  filename: string;
+  period: { from: string; to: string }; // Days the statement covers, YYYY-MM-DD (UTC)
+  lines: number;
+  matched: number;           // Lines that agree with their order exactly
+  discrepancies: Discrepancy[];
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Whether the ledger agrees with PayNow about an order
+ * PayNow has no partial refund status, so a partly refunded order may still show as paid or refunded.
+ */
+function statusesAgree(order: PaymentStatus, statement: PaymentStatus): boolean {
+  if (order === statement) return true;
+  return order === 'partially_refunded' && (statement === 'paid' || statement === 'refunded');
+}
+
+/**
+ * Compare statement lines with the ledger
+ * @param period - Days the statement covers; orders paid in it are expected on the statement
+ */
+export function reconcile(
+  lines: StatementLine[],
+  orders: Order[],
+  period: ReconciliationReport['period']
+): Pick<ReconciliationReport, 'lines' | 'matched' | 'discrepancies'> {
+  const byReference = new Map(orders.map(order => [order.reference, order]));
+  const byPaynowReference = new Map(
+    orders.filter(order => order.paynowReference).map(order => [order.paynowReference as string, order])
+  );
+
+  const discrepancies: Omit<Discrepancy, 'id'>[] = [];
+  const seen = new Map<string, number>(); // Order or statement reference → first line
+  let matched = 0;
+
+  lines.forEach(line => {
+    const order = byReference.get(line.reference)
+      ?? (line.paynowReference ? byPaynowReference.get(line.paynowReference) : undefined);
+    const reference = order?.reference ?? (line.reference || line.paynowReference || `line ${line.line}`);
+
+    const first = seen.get(reference);
+    if (first !== undefined) {
+      discrepancies.push({
+        type: 'duplicate',
+        reference,
+        line: line.line,
+        message: `Listed again; first seen on line ${first}`
+      });
+      return;
+    }
+    seen.set(reference, line.line);
+
+    if (!order) {
+      discrepancies.push({
+        type: 'missing_order',
+        reference,
+        line: line.line,
+        message: `PayNow lists ${line.amountText || 'no amount'} (${line.status || 'no status'}) but there is no order with this reference`
+      });
+      return;
+    }
+
+    let agrees = true;
+    const currency = line.currency ?? order.amount.currency;
+    if (line.amount === null || line.amount !== order.amount.amount || currency !== order.amount.currency) {
+      agrees = false;
+      discrepancies.push({
+        type: 'amount_mismatch',
+        reference,
+        line: line.line,
+        message: line.amount === null
+          ? `Statement amount "${line.amountText}" could not be read; order is ${formatMoney(order.amount)}`
+          : `Statement shows ${formatMoney(money(line.amount, currency))}; order is ${formatMoney(order.amount)}`
+      });
+    }
+
+    const statementStatus = fromGatewayStatus(line.status);
+    if (!statusesAgree(order.status, statementStatus)) {
+      agrees = false;
+      discrepancies.push({
+        type: 'status_mismatch',
+        reference,
+        line: line.line,
+        message: `PayNow reports "${line.status}"; order is ${STATUS_LABELS[order.status]}`
+      });
+    }
+
+    if (agrees) matched++;
+  });
+
+  orders
+    .filter(order => wasPaid(order.status) && !seen.has(order.reference))
+    .filter(order => {
+      const day = bookedOn(order);
+      return day >= period.from && day <= period.to;
+    })
+    .forEach(order => {
+      discrepancies.push({
+        type: 'missing_from_statement',
+        reference: order.reference,
+        message: `Order is ${STATUS_LABELS[order.status]} for ${formatMoney(order.amount)} but PayNow does not list it`
+      });
+    });
+
+  return {
+    lines: lines.length,
+    matched,
+    discrepancies: discrepancies.map((discrepancy, index) => ({ id: `D${index + 1}`, ...discrepancy }))
+  };
+}
+
+/**
+ * Discrepancies still waiting for an operator
+ */
+export function unresolved(report: ReconciliationReport): Discrepancy[] {
+  return report.discrepancies.filter(discrepancy => !discrepancy.resolution);
+}
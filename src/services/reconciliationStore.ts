@@ -0,0 +1,83 @@
+/**
+ * Reconciliation Store
+ * Keeps each imported statement's reconciliation report
+ * Handles:
+ * - Saving a report when a statement is imported
+ * - Listing and looking up reports
+ * - Recording how each discrepancy was resolved
+ */
+import path from 'path';
+import { DATA_DIR, readJsonFile, writeJsonFile } from '@/utils/jsonFile';
+import { Discrepancy, ReconciliationReport } from '@/services/reconciliation';
+import { generateReference } from '@/utils/reference';
+
+interface ReconciliationFile {
+  reports: Record<string, ReconciliationReport>;
+}
+
+export class ReconciliationStore {
+  private static instance: ReconciliationStore;
+
+  constructor(
+    private filePath: string = process.env.RECONCILIATION_STORE_PATH || path.join(DATA_DIR, 'reconciliations.json')
+  ) {}
+
+  static getInstance(): ReconciliationStore {
+    if (!ReconciliationStore.instance) {
+      ReconciliationStore.instance = new ReconciliationStore();
+    }
+    return ReconciliationStore.instance;
+  }
+
+  private read(): ReconciliationFile {
+    return readJsonFile<ReconciliationFile>(this.filePath, { reports: {} });
+  }
+
+  private write(data: ReconciliationFile): void {
+    writeJsonFile(this.filePath, data);
+  }
+
+  create(report: Omit<ReconciliationReport, 'id' | 'createdAt'>): ReconciliationReport {
+    const data = this.read();
+    const created: ReconciliationReport = {
+      id: generateReference('REC'),
+      ...report,
+      createdAt: new Date().toISOString()
+    };
+
+    data.reports[created.id] = created;
+    this.write(data);
+    return created;
+  }
+
+  get(id: string): ReconciliationReport | undefined {
+    return this.read().reports[id];
+  }
+
+  /**
+   * All reports, newest first
+   */
+  list(): ReconciliationReport[] {
+    return Object.values(this.read().reports)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Mark a discrepancy as dealt with
+   * @returns The updated discrepancy, or undefined if the report or discrepancy does not exist
+   * @throws If the discrepancy was already resolved
+   */
+  resolve(id: string, discrepancyId: string, note: string, by: string): Discrepancy | undefined {
+    const data = this.read();
+    const discrepancy = data.reports[id]?.discrepancies.find(item => item.id === discrepancyId);
+    if (!discrepancy) return undefined;
+
+    if (discrepancy.resolution) {
+      throw new Error(`${discrepancyId} was already resolved by ${discrepancy.resolution.by}`);
+    }
+
+    discrepancy.resolution = { note, by, at: new Date().toISOString() };
+    this.write(data);
+    return discrepancy;
+  }
+}
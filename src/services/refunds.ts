@@ -0,0 +1,110 @@
+/**
+ * Refunds
+ * Rules for recording money returned to customers outside the app
+ * Handles:
+ * - Amount refunded so far and the net amount kept
+ * - Units that can still be returned to stock
+ * - Validating a refund before it is recorded
+ * - Whether a refund leaves the order partially or fully refunded
+ */
+import { Money, subtractMoney, sumMoney } from '@/utils/money';
+import type { Order, PaymentStatus, Refund } from '@/types/types';
+
+export type RefundRequest = Pick<Refund, 'amount' | 'reason' | 'externalReference' | 'items'>;
+
+export class RefundError extends Error {
+  constructor(public problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'RefundError';
+  }
+}
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['paid', 'disputed', 'partially_refunded'];
+
+export function canRefund(status: PaymentStatus): boolean {
+  return REFUNDABLE_STATUSES.includes(status);
+}
+
+/**
+ * Everything refunded on an order so far
+ */
+export function refundedAmount(order: Order): Money {
+  return sumMoney((order.refunds ?? []).map(refund => refund.amount), order.amount.currency);
+}
+
+/**
+ * What the shop keeps from an order after refunds
+ */
+export function netAmount(order: Order): Money {
+  return subtractMoney(order.amount, refundedAmount(order));
+}
+
+/**
+ * Units of each product that have not been returned to stock yet
+ */
+export function returnableQuantities(order: Order): Record<number, number> {
+  const remaining: Record<number, number> = {};
+  order.items.forEach(item => {
+    remaining[item.id] = (remaining[item.id] || 0) + item.quantity;
+  });
+  (order.refunds ?? []).flatMap(refund => refund.items).forEach(item => {
+    remaining[item.id] = (remaining[item.id] || 0) - item.quantity;
+  });
+  return remaining;
+}
+
+/**
+ * Status an order takes once a refund is recorded
+ */
+export function statusAfterRefund(order: Order, amount: Money): PaymentStatus {
+  return subtractMoney(netAmount(order), amount).amount === 0 ? 'refunded' : 'partially_refunded';
+}
+
+/**
+ * Check a refund against what the order can still give back
+ * @returns Problems found; the refund may be recorded only if this is empty
+ */
+export function validateRefund(order: Order, request: RefundRequest): string[] {
+  const problems: string[] = [];
+
+  if (!canRefund(order.status)) {
+    problems.push(`Orders that are ${order.status} cannot be refunded`);
+  }
+
+  if (request.amount.currency !== order.amount.currency) {
+    problems.push(`Refunds must be in the order currency (${order.amount.currency})`);
+  } else if (request.amount.amount <= 0) {
+    problems.push('Refund amount must be more than zero');
+  } else if (request.amount.amount > netAmount(order).amount) {
+    problems.push('Refund amount is more than is left to refund');
+  }
+
+  if (!request.reason.trim()) {
+    problems.push('A reason is required');
+  } else if (request.reason.length > 500) {
+    problems.push('Reason must be 500 characters or fewer');
+  }
+
+  if (!request.externalReference.trim()) {
+    problems.push('The PayNow or bank reference for the refund is required');
+  } else if (request.externalReference.length > 100) {
+    problems.push('External reference must be 100 characters or fewer');
+  }
+
+  const returnable = returnableQuantities(order);
+  const seen = new Set<number>();
+  request.items.forEach(item => {
+    if (seen.has(item.id)) {
+      problems.push(`Product ${item.id} is listed more than once`);
+    } else if (!(item.id in returnable)) {
+      problems.push(`Product ${item.id} is not part of this order`);
+    } else if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      problems.push(`Returned quantity for product ${item.id} must be a positive whole number`);
+    } else if (item.quantity > returnable[item.id]) {
+      problems.push(`Only ${returnable[item.id]} of product ${item.id} can still be returned`);
+    }
+    seen.add(item.id);
+  });
+
+  return problems;
+}
@@ -0,0 +1,155 @@
+/**
+ * Staff Accounts
+ * Who may sign in to the admin area, and with which role
+ * Handles:
+ * - Staff records with scrypt-hashed passwords
+ * - Checking a username and password at sign-in
+ * - Resolving the signed-in staff member for pages and API routes
+ *
+ * Accounts are added with `npm run staff:add`; the app itself only reads them.
+ * Password hashes are stored as "scrypt$N$r$p$salt$hash" with base64 salt and hash.
+ */
+import crypto from 'crypto';
+import path from 'path';
+import type { IncomingMessage } from 'http';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { DATA_DIR, readJsonFile } from '@/utils/jsonFile';
+import { AuditLog } from '@/services/audit';
+import { getConfig } from '@/services/config';
+import { hasRole, SESSION_COOKIE, StaffRole, StaffSession, verifySession } from '@/utils/session';
+
+export interface StaffMember {
+  username: string;
+  name: string;
+  role: StaffRole;
+  passwordHash: string;
+  createdAt: string;
+}
+
+interface StaffFile {
+  staff: Record<string, StaffMember>;
+}
+
+// Compared against when the username is unknown, so both cases take as long
+const DUMMY_HASH = `scrypt$16384$8$1$${Buffer.alloc(16).toString('base64')}$${Buffer.alloc(64).toString('base64')}`;
+
+/**
+ * Check a password against a stored "scrypt$N$r$p$salt$hash" string
+ */
+function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return Promise.resolve(false);
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      password,
+      Buffer.from(salt, 'base64'),
+      expected.length,
+      { N: Number(N), r: Number(r), p: Number(p) },
+      (error, derived) => {
+        if (error) return reject(error);
+        resolve(crypto.timingSafeEqual(derived, expected));
+      }
+    );
+  });
+}
+
+/**
+ * Staff Store
+ * File-backed staff accounts keyed by username
+ * Re-read on every call so accounts changed by the CLI apply without a restart
+ */
+export class StaffStore {
+  private static instance: StaffStore;
+
+  constructor(
+    private filePath: string = process.env.STAFF_STORE_PATH || path.join(DATA_DIR, 'staff.json')
+  ) {}
+
+  static getInstance(): StaffStore {
+    if (!StaffStore.instance) {
+      StaffStore.instance = new StaffStore();
+    }
+    return StaffStore.instance;
+  }
+
+  get(username: string): StaffMember | undefined {
+    return readJsonFile<StaffFile>(this.filePath, { staff: {} }).staff[username.toLowerCase()];
+  }
+
+  /**
+   * Check sign-in credentials
+   * @returns The staff member, or null if the username or password is wrong
+   */
+  async authenticate(username: string, password: string): Promise<StaffMember | null> {
+    const member = this.get(username);
+    const matches = await verifyPassword(password, member?.passwordHash ?? DUMMY_HASH);
+    return member && matches ? member : null;
+  }
+}
+
+/**
+ * The signed-in staff member for a request, if any
+ * The role is taken from the staff file rather than the cookie, so removing
+ * someone or lowering their role applies to sessions they already hold.
+ */
+export async function getStaffSession(
+  req: IncomingMessage & { cookies: Partial<Record<string, string>> }
+): Promise<StaffSession | null> {
+  const session = await verifySession(req.cookies[SESSION_COOKIE]);
+  if (!session) return null;
+
+  const member = StaffStore.getInstance().get(session.username);
+  return member ? { ...session, role: member.role } : null;
+}
+
+/**
+ * Client address for the audit log and rate limits
+ * X-Forwarded-For is sent by anyone, so it is only read when TRUST_PROXY is set; the proxy
+ * appends the address it saw, which makes the last entry the one that can be believed.
+ */
+export function clientIp(req: IncomingMessage): string | undefined {
+  if (getConfig().trustProxy) {
+    const forwarded = req.headers['x-forwarded-for'];
+    const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+    if (last) return last;
+  }
+  return req.socket.remoteAddress || undefined;
+}
+
+/**
+ * Guard a privileged API route
+ * Sends 401 or 403 itself when the request may not proceed; refusals are audited
+ * @param action - Audit action name, e.g. order.repoll
+ * @param target - What the action applies to, e.g. the order reference
+ * @returns The staff member's session, or null if a response has been sent
+ */
+export async function requireStaff(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  role: StaffRole,
+  action: string,
+  target?: string
+): Promise<StaffSession | null> {
+  const session = await getStaffSession(req);
+  if (!session) {
+    res.status(401).json({ success: false, message: 'Sign in required' });
+    return null;
+  }
+  if (!hasRole(session.role, role)) {
+    AuditLog.getInstance().record({
+      actor: session.username,
+      role: session.role,
+      action,
+      target,
+      outcome: 'denied',
+      ip: clientIp(req)
+    });
+    res.status(403).json({ success: false, message: `This action needs the ${role} role` });
+    return null;
+  }
+  return session;
+}
@@ -0,0 +1,106 @@
+/**
+ * Merchant Statements
+ * Reads the transaction CSV exported from the PayNow merchant portal
+ * Handles:
+ * - Finding columns by header name, whatever order they come in
+ * - Amounts written with symbols, currency codes or thousands separators
+ * - Reporting every problem with the file at once
+ */
+import { Currency, parseMoney } from '@/utils/money';
+import { isSupportedCurrency } from '@/utils/currency';
+import { parseCsv } from '@/utils/csv';
+
+export interface StatementLine {
+  line: number;               // Row in the file, counting the header as 1
+  reference: string;          // Merchant reference the payment was made under
+  paynowReference?: string;
+  amount: number | null;      // Minor units, null if the amount could not be read
+  amountText: string;         // Amount as written in the statement
+  currency?: Currency;        // Only when the statement has a currency column; otherwise the order's is assumed
+  status: string;             // PayNow's status, as written
+  date?: string;
+}
+
+export class StatementError extends Error {
+  constructor(public problems: string[]) {
+    super(`Could not read the statement:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'StatementError';
+  }
+}
+
+type StatementColumn = 'reference' | 'paynowReference' | 'amount' | 'currency' | 'status' | 'date';
+
+/**
+ * Header names each column is recognised by, compared lowercase with punctuation removed
+ */
+const COLUMN_HEADERS: Record<StatementColumn, string[]> = {
+  reference: ['reference', 'merchant reference', 'merchant ref', 'your reference'],
+  paynowReference: ['paynow reference', 'paynow ref', 'paynow id', 'transaction id', 'transaction reference'],
+  amount: ['amount', 'total', 'value', 'transaction amount'],
+  currency: ['currency'],
+  status: ['status', 'transaction status'],
+  date: ['date', 'transaction date', 'date created', 'created']
+};
+
+const REQUIRED_COLUMNS: StatementColumn[] = ['reference', 'amount', 'status'];
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Read an amount such as "$1,234.50", "USD 49.99" or "49.99" into minor units
+ */
+function readAmount(value: string): number | null {
+  const cleaned = value.replace(/[^0-9.-]/g, '');
+  try {
+    return cleaned ? parseMoney(cleaned).amount : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a merchant statement
+ * @throws StatementError if the file has no usable header or required columns are missing
+ */
+export function parseStatement(text: string): StatementLine[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new StatementError(['The file is empty']);
+  }
+
+  const headers = header.map(normaliseHeader);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_HEADERS) as StatementColumn[]).map(column => [
+      column,
+      headers.findIndex(name => COLUMN_HEADERS[column].includes(name))
+    ])
+  ) as Record<StatementColumn, number>;
+
+  const missing = REQUIRED_COLUMNS.filter(column => columns[column] < 0);
+  if (missing.length > 0) {
+    throw new StatementError(missing.map(column =>
+      `No ${column} column; expected a header named one of: ${COLUMN_HEADERS[column].join(', ')}`
+    ));
+  }
+
+  const cell = (row: string[], column: StatementColumn): string =>
+    columns[column] >= 0 ? (row[columns[column]] ?? '').trim() : '';
+
+  return rows.map((row, index) => {
+    const currency = cell(row, 'currency').toUpperCase();
+    const amountText = cell(row, 'amount');
+
+    return {
+      line: index + 2,
+      reference: cell(row, 'reference'),
+      paynowReference: cell(row, 'paynowReference') || undefined,
+      amount: readAmount(amountText),
+      amountText,
+      currency: isSupportedCurrency(currency) ? currency : undefined,
+      status: cell(row, 'status'),
+      date: cell(row, 'date') || undefined
+    };
+  });
+}
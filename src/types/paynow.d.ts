@@ -7,6 +7,10 @@ declare module 'paynow' {
     send(payment: Payment): Promise<InitResponse>;
     sendMobile(payment: Payment, phone: string, method: string): Promise<InitResponse>;
     pollTransaction(url: string): Promise<StatusResponse>;
+    parseStatusUpdate(response: string): StatusResponse;
+    // Request signing and response parsing, used when posting to a custom gateway URL
+    parse(response: string): InitResponse | null;
+    generateHash(values: Record<string, string>, integrationKey: string): string;
   }
 
   export class Payment {
@@ -15,6 +19,7 @@ declare module 'paynow' {
 
   export interface InitResponse {
     success: boolean;
+    status?: string;
     error?: string;
     redirectUrl?: string;
     pollUrl?: string;
@@ -22,6 +27,11 @@ declare module 'paynow' {
   }
 
   export interface StatusResponse {
-    paid(): boolean;
+    reference?: string;
+    amount?: string;
+    paynowReference?: string;
+    pollUrl?: string;
+    status?: string;
+    error?: string;
   }
-} 
\ No newline at end of file
+}
@@ -1,3 +1,10 @@
+import type { PaymentStatus } from '@/services/lifecycle';
+import type { FailureReason } from '@/services/failures';
+import type { Currency, Money } from '@/utils/money';
+import type { LineAdjustment } from '@/utils/cartRules';
+
+export type { PaymentStatus, FailureReason, Currency, Money };
+
 export interface Product {
   id: number;
   name: string;
@@ -12,12 +19,122 @@ export interface CartItem extends Product {
 }
 
 export interface CartStore {
+  cartId: string;        // Keys the server copy of the cart, see utils/cartSync.ts
   items: CartItem[];
   isOpen: boolean;
+  currency: Currency;
+  notices: string[];     // Lines the server changed since they were added, shown until dismissed
   addItem: (product: Product) => void;
   removeItem: (productId: number) => void;
   updateQuantity: (productId: number, quantity: number) => void;
   toggleCart: () => void;
   clearCart: () => void;
-  total: number;
+  restoreCart: (items: CartItem[], currency: Currency, cartId?: string) => void;
+  setCurrency: (currency: Currency) => void;
+  applyStock: (stock: Pick<CartItem, 'id' | 'stock'>[], adjustments: LineAdjustment[]) => void;
+  dismissNotices: () => void;
+  total: Money;
+}
+
+export interface CustomerDetails {
+  name: string;
+  email: string;
+  phone?: string;
+}
+
+export interface OrderLine {
+  id: number;
+  name: string;
+  price: Money; // Unit price
+  quantity: number;
+}
+
+export interface OrderStatusChange {
+  status: PaymentStatus;
+  from?: PaymentStatus;
+  at: string;
+  source: 'initiate' | 'callback' | 'poll' | 'refund';
+  gatewayStatus?: string;
+  hash?: string;
+  message?: string;
+  reason?: FailureReason; // Set when the change is a failed outcome
+}
+
+/**
+ * Raw reply or callback from PayNow, kept for support and reconciliation
+ */
+export interface GatewayResponse {
+  at: string;
+  source: OrderStatusChange['source'];
+  fields: Record<string, string>;
+}
+
+/**
+ * Money returned to the customer outside the app, e.g. through the PayNow merchant portal
+ */
+export interface Refund {
+  id: string;
+  amount: Money;
+  reason: string;
+  externalReference: string;   // PayNow or bank reference for the refund
+  items: { id: number; quantity: number }[]; // Units returned to stock, if any
+  recordedBy: string;          // Staff username, or paynow when PayNow reported it
+  at: string;
+}
+
+export interface Order {
+  reference: string;
+  customer: CustomerDetails;
+  items: OrderLine[];
+  amount: Money;
+  exchangeRate: number; // Units of the order currency per USD when the order was placed
+  method: string;
+  status: PaymentStatus;
+  cartId?: string;      // Server cart the order was placed from, if it was synced
+  pollUrl?: string;
+  redirectUrl?: string;
+  paynowReference?: string;
+  history: OrderStatusChange[];
+  gatewayResponses?: GatewayResponse[]; // Missing on orders recorded before responses were kept
+  refunds?: Refund[];
+  stockShortfall?: { id: number; quantity: number }[]; // Units paid for that were no longer in stock
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Order status as streamed to the checkout page
+ */
+export interface PaymentStatusSnapshot {
+  reference: string;
+  status: PaymentStatus;
+  success: boolean;
+  message?: string;
+  reason?: FailureReason;
+  deadline: string; // When the server stops waiting for a pending payment
+}
+
+/**
+ * Customer-facing summary of a paid order
+ */
+export interface Receipt {
+  reference: string;
+  paynowReference: string | null;
+  customer: CustomerDetails;
+  method: string; // Display label of the payment method
+  lines: {
+    name: string;
+    quantity: number;
+    unitPrice: Money;
+    total: Money;
+  }[];
+  total: Money;
+  refunds: {
+    at: string;
+    amount: Money;
+    reason: string;
+  }[];
+  netTotal: Money; // Total less refunds
+  status: PaymentStatus;
+  paidAt: string | null;
 }
@@ -1,31 +1,65 @@
 import { create } from 'zustand';
-import { CartStore, Product } from '@/types/types';
+import { persist } from 'zustand/middleware';
+import { CartItem, CartStore, Currency, Product } from '@/types/types';
+import { money, sumMoney } from '@/utils/money';
+import { BASE_CURRENCY, isSupportedCurrency, lineTotal } from '@/utils/currency';
+import { adjustmentMessage, fitQuantity, LineAdjustment } from '@/utils/cartRules';
 
-export const useCartStore = create<CartStore>((set, get) => ({
+const calculateTotal = (items: CartItem[], currency: Currency) =>
+  sumMoney(items.map((item) => lineTotal(item, currency)), currency);
+
+// Applies the quantity rules to every line, dropping lines left at zero
+const fitItems = (items: CartItem[]) =>
+  items
+    .map((item) => ({ ...item, quantity: fitQuantity(item.quantity, item.stock).quantity }))
+    .filter((item) => item.quantity > 0);
+
+/**
+ * Random, unguessable id for a new cart
+ * It is the only key to the server copy, so it must not be predictable
+ */
+function newCartId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}${Math.random().toString(36).slice(2)}`;
+}
+
+// Kept in localStorage, so a refresh or the return from PayNow finds the same cart
+export const useCartStore = create<CartStore>()(persist((set) => ({
+  cartId: newCartId(),
   items: [],
   isOpen: false,
-  total: 0,
+  currency: BASE_CURRENCY,
+  notices: [],
+  total: money(0, BASE_CURRENCY),
 
+  // Does nothing once the line holds all the stock, or the most one order may have
   addItem: (product: Product) => {
     set((state) => {
       const existingItem = state.items.find((item) => item.id === product.id);
-      
+      // Stock reported by the server is newer than the catalog figure on the product
+      const quantity = fitQuantity((existingItem?.quantity ?? 0) + 1, existingItem?.stock ?? product.stock).quantity;
+
+      if (quantity <= (existingItem?.quantity ?? 0)) {
+        return state;
+      }
+
       if (existingItem) {
         const updatedItems = state.items.map((item) =>
           item.id === product.id
-            ? { ...item, quantity: item.quantity + 1 }
+            ? { ...item, quantity }
             : item
         );
         return {
           items: updatedItems,
-          total: updatedItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+          total: calculateTotal(updatedItems, state.currency)
         };
       }
 
       const newItems = [...state.items, { ...product, quantity: 1 }];
       return {
         items: newItems,
-        total: newItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        total: calculateTotal(newItems, state.currency)
       };
     });
   },
@@ -35,24 +69,92 @@ export const useCartStore = create<CartStore>((set, get) => ({
       const newItems = state.items.filter((item) => item.id !== productId);
       return {
         items: newItems,
-        total: newItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        total: calculateTotal(newItems, state.currency)
       };
     });
   },
 
+  // Clamped to the stock and per-order maximum; a line set to zero is removed
   updateQuantity: (productId: number, quantity: number) => {
     set((state) => {
-      const newItems = state.items.map((item) =>
+      const newItems = fitItems(state.items.map((item) =>
         item.id === productId ? { ...item, quantity } : item
-      );
+      ));
       return {
         items: newItems,
-        total: newItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+        total: calculateTotal(newItems, state.currency)
       };
     });
   },
 
   toggleCart: () => set((state) => ({ isOpen: !state.isOpen })),
   
-  clearCart: () => set({ items: [], total: 0 }),
+  // A cleared cart starts over under a new id, leaving the old one's server copy as it was
+  clearCart: () => set((state) => ({ cartId: newCartId(), items: [], total: money(0, state.currency) })),
+
+  // Puts back the lines of an unsuccessful order, or of a cart opened from a recovery email
+  restoreCart: (items: CartItem[], currency: Currency, cartId?: string) => {
+    const fitted = fitItems(items);
+    set((state) => ({ cartId: cartId ?? state.cartId, items: fitted, currency, total: calculateTotal(fitted, currency) }));
+  },
+
+  setCurrency: (currency: Currency) => {
+    set((state) => ({
+      currency,
+      total: calculateTotal(state.items, currency)
+    }));
+  },
+
+  // Takes the stock the server reports and trims lines that no longer fit, with a notice for each
+  applyStock: (stock: Pick<CartItem, 'id' | 'stock'>[], adjustments: LineAdjustment[]) => {
+    set((state) => {
+      const notices: string[] = [];
+
+      const newItems = state.items.flatMap((item) => {
+        const adjustment = adjustments.find((line) => line.id === item.id);
+        if (adjustment?.reason === 'unavailable') {
+          notices.push(adjustmentMessage({ ...adjustment, requested: item.quantity }, item.name));
+          return [];
+        }
+
+        // Lines the server emptied are not in its stock list, only in the adjustments
+        const available = stock.find((line) => line.id === item.id)?.stock ?? adjustment?.quantity ?? item.stock;
+        const { quantity, reason } = fitQuantity(item.quantity, available);
+        if (reason) {
+          notices.push(adjustmentMessage({ id: item.id, requested: item.quantity, quantity, reason }, item.name));
+        }
+        return quantity > 0 ? [{ ...item, stock: available, quantity }] : [];
+      });
+
+      if (newItems.length === state.items.length &&
+        newItems.every((item, index) => item.quantity === state.items[index].quantity && item.stock === state.items[index].stock)) {
+        return state;
+      }
+
+      return {
+        items: newItems,
+        notices: [...state.notices, ...notices],
+        total: calculateTotal(newItems, state.currency)
+      };
+    });
+  },
+
+  dismissNotices: () => set({ notices: [] }),
+}), {
+  name: 'cart-storage',
+  // The drawer starts closed on every visit and the total is worked out again
+  partialize: (state) => ({ cartId: state.cartId, items: state.items, currency: state.currency }),
+  merge: (persisted, current) => {
+    const saved = (persisted || {}) as Partial<CartStore>;
+    const items = Array.isArray(saved.items) ? fitItems(saved.items) : current.items;
+    const currency = saved.currency && isSupportedCurrency(saved.currency) ? saved.currency : current.currency;
+
+    return {
+      ...current,
+      cartId: saved.cartId || current.cartId,
+      items,
+      currency,
+      total: calculateTotal(items, currency)
+    };
+  }
 }));
@@ -0,0 +1,69 @@
+/**
+ * Cart Quantity Rules
+ * How many units of a product a cart line may hold
+ * Handles:
+ * - Whole, positive quantities only; a line at zero is removed
+ * - No more than the units available
+ * - No more than NEXT_PUBLIC_MAX_QUANTITY_PER_ORDER units of one product per order
+ * - Describing a line the server had to change, e.g. because stock ran low
+ *
+ * Enforced by the cart store in the browser and again by the server.
+ */
+
+/**
+ * Most units of one product a single order can hold
+ * NEXT_PUBLIC_ so the browser applies the same limit; config.ts rejects invalid values
+ */
+export const MAX_QUANTITY_PER_ORDER = Number(process.env.NEXT_PUBLIC_MAX_QUANTITY_PER_ORDER) || 10;
+
+/**
+ * Why a line's quantity was changed
+ * - stock: fewer units are available than the line asked for
+ * - limit: the line asked for more than the per-order maximum
+ * - unavailable: the product is no longer sold
+ */
+export type AdjustmentReason = 'stock' | 'limit' | 'unavailable';
+
+export interface LineAdjustment {
+  id: number;
+  requested: number;
+  quantity: number;          // What the line now holds; 0 means it was removed
+  reason: AdjustmentReason;
+}
+
+/**
+ * Most units a line can hold when `available` units are in stock
+ */
+export function maxQuantity(available: number): number {
+  return Math.max(0, Math.min(available, MAX_QUANTITY_PER_ORDER));
+}
+
+/**
+ * Quantity a line may hold, with the reason when it differs from the one asked for
+ */
+export function fitQuantity(requested: number, available: number): { quantity: number; reason?: AdjustmentReason } {
+  const whole = Number.isFinite(requested) ? Math.max(0, Math.floor(requested)) : 0;
+  const allowed = maxQuantity(available);
+
+  if (whole <= allowed) {
+    return { quantity: whole };
+  }
+  return { quantity: allowed, reason: available < MAX_QUANTITY_PER_ORDER ? 'stock' : 'limit' };
+}
+
+/**
+ * Notice for the shopper about a line that was changed
+ * @param name - Product name as shown in the cart
+ */
+export function adjustmentMessage(adjustment: LineAdjustment, name: string): string {
+  if (adjustment.reason === 'unavailable') {
+    return `${name} is no longer available and was removed from your cart`;
+  }
+  if (adjustment.quantity === 0) {
+    return `${name} is out of stock and was removed from your cart`;
+  }
+  if (adjustment.reason === 'limit') {
+    return `You can order up to ${adjustment.quantity} of ${name}, so your cart now has ${adjustment.quantity}`;
+  }
+  return `Only ${adjustment.quantity} of ${name} left in stock, so your cart now has ${adjustment.quantity}`;
+}
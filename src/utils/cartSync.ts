@@ -0,0 +1,110 @@
+/**
+ * Cart Sync
+ * Keeps the server copy of the browser's cart up to date via /api/cart/[id]
+ * Handles:
+ * - Saving the lines and currency shortly after every change
+ * - Trimming lines to the stock the server reports, with a notice for each
+ * - Clearing a cart that has been paid for since this browser last saw it
+ * - Saving the email entered at checkout, for the abandoned cart email
+ * - Stopping quietly when the server has cart sync turned off
+ *
+ * The cart in localStorage is always the one shown; sync problems never interrupt shopping.
+ */
+import { useCartStore } from '@/utils/cart';
+import { LineAdjustment } from '@/utils/cartRules';
+import { CartItem, CartStore, CustomerDetails } from '@/types/types';
+
+const SYNC_DELAY_MS = 1000;
+
+let disabled = false;
+
+interface CartResponse {
+  sync?: boolean;
+  cart?: { id: string; status: 'open' | 'converted'; items: CartItem[] };
+  adjustments?: LineAdjustment[];
+}
+
+// Lines as the server sees them; stock updates alone are not worth saving
+const linesKey = (state: CartStore) =>
+  `${state.currency}:${state.items.map((item) => `${item.id}x${item.quantity}`).join(',')}`;
+
+/**
+ * React to the server's view of the cart
+ */
+function handleResponse(data: CartResponse): void {
+  if (data.sync === false) {
+    disabled = true;
+    return;
+  }
+
+  const store = useCartStore.getState();
+  if (!data.cart || data.cart.id !== store.cartId) return;
+
+  // Paid for, e.g. in another tab; start a fresh cart
+  if (data.cart.status === 'converted') {
+    store.clearCart();
+    return;
+  }
+
+  store.applyStock(data.cart.items, data.adjustments ?? []);
+}
+
+async function saveCart(state: CartStore, customer?: Pick<CustomerDetails, 'name' | 'email'>): Promise<void> {
+  if (disabled) return;
+
+  try {
+    const response = await fetch(`/api/cart/${encodeURIComponent(state.cartId)}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        items: state.items.map(({ id, quantity }) => ({ id, quantity })),
+        currency: state.currency,
+        customer
+      })
+    });
+    handleResponse(await response.json());
+  } catch (error) {
+    console.warn('Cart sync failed:', error);
+  }
+}
+
+/**
+ * Save the cart now, so its lines are checked against current stock
+ * Empty carts are skipped; there is nothing to check.
+ */
+export function checkCartStock(): Promise<void> {
+  const state = useCartStore.getState();
+  return state.items.length > 0 ? saveCart(state) : Promise.resolve();
+}
+
+/**
+ * Check the saved cart once, then save every change
+ * @returns Function that stops syncing
+ */
+export function startCartSync(): () => void {
+  checkCartStock();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const unsubscribe = useCartStore.subscribe((state, previous) => {
+    const changed = linesKey(state) !== linesKey(previous);
+
+    // A new, empty cart has nothing worth saving yet
+    if (!changed && (state.cartId === previous.cartId || state.items.length === 0)) return;
+
+    clearTimeout(timer);
+    timer = setTimeout(() => saveCart(useCartStore.getState()), SYNC_DELAY_MS);
+  });
+
+  return () => {
+    clearTimeout(timer);
+    unsubscribe();
+  };
+}
+
+/**
+ * Save the shopper's email with the cart, so it can be recovered if checkout is abandoned
+ */
+export function saveCartContact(name: string, email: string): Promise<void> {
+  return saveCart(useCartStore.getState(), { name, email });
+}
@@ -0,0 +1,42 @@
+/**
+ * Currency Conversion
+ * Catalog prices are kept in the base currency (USD) and converted per order
+ * using the rate table in data/rates.json.
+ */
+import ratesData from '@/data/rates.json';
+import { Currency, fromMajor, money, Money, multiplyMoney } from '@/utils/money';
+
+export const SUPPORTED_CURRENCIES: Currency[] = ['USD', 'ZWG'];
+
+export const BASE_CURRENCY = ratesData.base as Currency;
+
+export function isSupportedCurrency(value: unknown): value is Currency {
+  return SUPPORTED_CURRENCIES.includes(value as Currency);
+}
+
+/**
+ * Units of `currency` per one unit of the base currency
+ */
+export function exchangeRate(currency: Currency): number {
+  const rate = (ratesData.rates as Record<string, number>)[currency];
+  if (!rate) {
+    throw new Error(`No exchange rate configured for ${currency}`);
+  }
+  return rate;
+}
+
+/**
+ * Unit price of a catalog product in the given currency, rounded to the cent
+ */
+export function unitPrice(product: { price: number }, currency: Currency = BASE_CURRENCY): Money {
+  const base = fromMajor(product.price, BASE_CURRENCY);
+  return money(Math.round(base.amount * exchangeRate(currency)), currency);
+}
+
+/**
+ * Total for a cart or order line in the given currency
+ * Each unit is converted first so the line always equals unit price x quantity
+ */
+export function lineTotal(item: { price: number; quantity: number }, currency: Currency = BASE_CURRENCY): Money {
+  return multiplyMoney(unitPrice(item, currency), item.quantity);
+}
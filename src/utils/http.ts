@@ -0,0 +1,13 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * Read the unparsed request body
+ * Only usable on routes that export `config.api.bodyParser = false`
+ */
+export async function readRawBody(req: NextApiRequest): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
@@ -0,0 +1,33 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Directory for the app's local data files
+ * Override with DATA_DIR to keep state outside the project
+ */
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * Read a JSON file, falling back when it does not exist yet
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON file atomically
+ * Writes to a temporary file first so readers never see a partial document
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+}
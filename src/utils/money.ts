@@ -0,0 +1,101 @@
+/**
+ * Money
+ * Amounts are held as integer minor units (cents) with their currency,
+ * so totals are exact and never depend on floating point rounding.
+ */
+export type Currency = 'USD' | 'ZWG';
+
+export interface Money {
+  amount: number; // Integer minor units, e.g. 29999 for $299.99
+  currency: Currency;
+}
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = {
+  USD: '$',
+  ZWG: 'ZWG '
+};
+
+/**
+ * Create a Money value from minor units
+ * @throws If the amount is not a whole number of minor units
+ */
+export function money(amount: number, currency: Currency = 'USD'): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Convert a major-unit price (e.g. 299.99 from the catalog) into Money
+ */
+export function fromMajor(value: number, currency: Currency = 'USD'): Money {
+  return money(Math.round(value * 100), currency);
+}
+
+/**
+ * Parse a decimal string such as "599.98" exactly, without going through a float
+ * @throws If the string is not a plain decimal amount
+ */
+export function parseMoney(value: string, currency: Currency = 'USD'): Money {
+  const match = /^(-)?(\d+)(?:\.(\d{1,2}))?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid money amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const amount = Number(whole) * 100 + Number(fraction.padEnd(2, '0'));
+  return money(sign ? -amount : amount, currency);
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+}
+
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount + b.amount, a.currency);
+}
+
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amount - b.amount, a.currency);
+}
+
+export function multiplyMoney(value: Money, quantity: number): Money {
+  if (!Number.isInteger(quantity)) {
+    throw new Error(`Quantities must be whole numbers, got ${quantity}`);
+  }
+  return money(value.amount * quantity, value.currency);
+}
+
+export function sumMoney(values: Money[], currency: Currency = 'USD'): Money {
+  return values.reduce(addMoney, money(0, currency));
+}
+
+export function equalsMoney(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.amount === b.amount;
+}
+
+/**
+ * Exact decimal representation, e.g. "599.98" - what PayNow expects as an amount
+ */
+export function toDecimalString(value: Money): string {
+  const sign = value.amount < 0 ? '-' : '';
+  const absolute = Math.abs(value.amount);
+  const major = Math.floor(absolute / 100);
+  const minor = String(absolute % 100).padStart(2, '0');
+  return `${sign}${major}.${minor}`;
+}
+
+/**
+ * Display format, e.g. "$1,299.98" or "ZWG 34,826.93"
+ */
+export function formatMoney(value: Money): string {
+  const [major, minor] = toDecimalString(value).replace('-', '').split('.');
+  const grouped = major.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  const sign = value.amount < 0 ? '-' : '';
+  return `${sign}${CURRENCY_SYMBOLS[value.currency]}${grouped}.${minor}`;
+}
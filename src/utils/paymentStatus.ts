@@ -0,0 +1,76 @@
+/**
+ * Payment Status Subscription
+ * Follows an order's status from the browser via /api/payment/status/[reference]
+ * Handles:
+ * - Server-Sent Events where the browser supports them
+ * - Long-polling otherwise
+ * - Stopping once the order settles
+ */
+import { isSettled } from '@/services/lifecycle';
+import { PaymentStatusSnapshot } from '@/types/types';
+
+const RETRY_DELAY_MS = 5000;
+
+/**
+ * Subscribe to status changes for an order
+ * @param reference - Order reference returned by payment initiation
+ * @param onStatus - Called with the current status, then on every change
+ * @param onError - Called when the status cannot be followed
+ * @returns Function that stops the subscription
+ */
+export function subscribeToPaymentStatus(
+  reference: string,
+  onStatus: (snapshot: PaymentStatusSnapshot) => void,
+  onError?: (error: Error) => void
+): () => void {
+  const url = `/api/payment/status/${encodeURIComponent(reference)}`;
+
+  if (typeof EventSource !== 'undefined') {
+    const source = new EventSource(url);
+
+    source.addEventListener('status', event => {
+      const snapshot: PaymentStatusSnapshot = JSON.parse((event as MessageEvent).data);
+      onStatus(snapshot);
+      if (isSettled(snapshot.status)) source.close();
+    });
+
+    // Dropped connections are retried by the browser; a closed source will not be
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        onError?.(new Error('Lost connection to payment status'));
+      }
+    };
+
+    return () => source.close();
+  }
+
+  let stopped = false;
+
+  const poll = async () => {
+    let since: string | undefined;
+
+    while (!stopped) {
+      try {
+        const response = await fetch(since ? `${url}?since=${since}` : url);
+        if (!response.ok) {
+          throw new Error('Failed to check payment status');
+        }
+
+        const snapshot: PaymentStatusSnapshot = await response.json();
+        if (stopped) return;
+
+        onStatus(snapshot);
+        if (isSettled(snapshot.status)) return;
+        since = snapshot.status;
+      } catch (error) {
+        onError?.(error instanceof Error ? error : new Error('Failed to check payment status'));
+        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS));
+      }
+    }
+  };
+
+  poll();
+  return () => {
+    stopped = true;
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * PDF Writer
+ * Minimal PDF 1.4 generator for simple documents such as receipts
+ * Handles:
+ * - A4 pages with text in Helvetica and Helvetica-Bold
+ * - Left and right aligned text (using the standard font metrics)
+ * - Lines and filled rectangles
+ *
+ * Positions are in points, measured from the top-left corner of the page.
+ * Text is encoded as WinAnsi; characters outside it are replaced with "?".
+ */
+
+export type PdfFont = 'regular' | 'bold';
+
+// Red, green, blue, each 0-1
+export type PdfColor = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  align?: 'left' | 'right'; // Right aligned text ends at x
+}
+
+const A4_WIDTH = 595.28;
+const A4_HEIGHT = 841.89;
+
+const FONT_NAMES: Record<PdfFont, string> = {
+  regular: 'Helvetica',
+  bold: 'Helvetica-Bold'
+};
+
+// Glyph widths in 1/1000 em for character codes 32-126, from the standard Adobe metrics
+const FONT_WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+};
+const DEFAULT_WIDTH = 556;
+
+/**
+ * Reduce text to WinAnsi (Latin-1 range) characters
+ */
+function toWinAnsi(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function escapeText(value: string): string {
+  return value.replace(/[\\()]/g, match => `\\${match}`);
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function colorOperands(color: PdfColor): string {
+  return color.map(formatNumber).join(' ');
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(
+    readonly width: number = A4_WIDTH,
+    readonly height: number = A4_HEIGHT
+  ) {
+    this.addPage();
+  }
+
+  /**
+   * Start a new page; later drawing goes onto it
+   */
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private draw(operations: string): void {
+    this.pages[this.pages.length - 1].push(operations);
+  }
+
+  /**
+   * Width of a string in points
+   */
+  textWidth(value: string, size: number, font: PdfFont = 'regular'): number {
+    const widths = FONT_WIDTHS[font];
+    const units = Array.from(toWinAnsi(value)).reduce((total, char) => {
+      const code = char.charCodeAt(0);
+      return total + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH);
+    }, 0);
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Draw a single line of text with its baseline at y
+   */
+  text(value: string, x: number, y: number, options: TextOptions = {}): void {
+    const { size = 10, font = 'regular', color = [0, 0, 0], align = 'left' } = options;
+    const left = align === 'right' ? x - this.textWidth(value, size, font) : x;
+    const fontResource = font === 'bold' ? 'F2' : 'F1';
+
+    this.draw(
+      `BT ${colorOperands(color)} rg /${fontResource} ${formatNumber(size)} Tf ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td (${escapeText(toWinAnsi(value))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: PdfColor = [0, 0, 0], lineWidth = 0.5): void {
+    this.draw(
+      `${colorOperands(color)} RG ${formatNumber(lineWidth)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  /**
+   * Filled rectangle whose top-left corner is at (x, y)
+   */
+  rect(x: number, y: number, rectWidth: number, rectHeight: number, color: PdfColor): void {
+    this.draw(
+      `${colorOperands(color)} rg ` +
+      `${formatNumber(x)} ${formatNumber(this.height - y - rectHeight)} ${formatNumber(rectWidth)} ${formatNumber(rectHeight)} re f`
+    );
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(): Buffer {
+    // Objects 1-4 are fixed; each page adds a page object and its content stream
+    const objects: string[] = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${this.pages.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${this.pages.length} >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.regular} /Encoding /WinAnsiEncoding >>`,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES.bold} /Encoding /WinAnsiEncoding >>`
+    ];
+
+    this.pages.forEach((operations, i) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+        `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, i) => {
+      const offset = Buffer.byteLength(output, 'latin1');
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
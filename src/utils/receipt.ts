@@ -0,0 +1,39 @@
+/**
+ * Receipts
+ * Turns a stored order into the summary shown to the customer
+ */
+import { getPaymentMethod } from '@/services/paymentMethods';
+import { netAmount } from '@/services/refunds';
+import { Order, Receipt } from '@/types/types';
+import { multiplyMoney } from '@/utils/money';
+
+/**
+ * Build the receipt for an order
+ * Line totals are recomputed from the stored unit prices, which are what PayNow was charged from.
+ * Refunds are listed without their internal references.
+ */
+export function toReceipt(order: Order): Receipt {
+  const paid = [...order.history].reverse().find(change => change.status === 'paid');
+
+  return {
+    reference: order.reference,
+    paynowReference: order.paynowReference ?? null,
+    customer: {
+      name: order.customer.name,
+      email: order.customer.email,
+      ...(order.customer.phone ? { phone: order.customer.phone } : {})
+    },
+    method: getPaymentMethod(order.method)?.label ?? order.method,
+    lines: order.items.map(item => ({
+      name: item.name,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      total: multiplyMoney(item.price, item.quantity)
+    })),
+    total: order.amount,
+    refunds: (order.refunds ?? []).map(refund => ({ at: refund.at, amount: refund.amount, reason: refund.reason })),
+    netTotal: netAmount(order),
+    status: order.status,
+    paidAt: paid?.at ?? null
+  };
+}
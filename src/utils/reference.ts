@@ -0,0 +1,106 @@
+/**
+ * Merchant References
+ * Generates the reference each order is sent to PayNow under
+ * Handles:
+ * - Time-sortable references (newer references sort after older ones)
+ * - Collision safety within and across processes
+ * - A merchant/store prefix
+ * - A check character to catch mistyped references
+ *
+ * Format: {PREFIX}-{10 chars time}{8 chars random}{check}, e.g. INV-01M5ARY6A6HHM5FT8FJ
+ */
+
+// Crockford base32: no I, L, O or U, so references read back unambiguously
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const TIME_LENGTH = 10;
+const RANDOM_LENGTH = 8;
+
+// Check characters are computed over the whole reference, prefix included
+const CHECK_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export const REFERENCE_PREFIX_PATTERN = /^[A-Z0-9]{1,10}$/;
+
+let lastTime = -1;
+let lastRandom: number[] = [];
+
+function encodeTime(time: number): string {
+  let remaining = time;
+  let encoded = '';
+  for (let i = 0; i < TIME_LENGTH; i++) {
+    encoded = ENCODING[remaining % 32] + encoded;
+    remaining = Math.floor(remaining / 32);
+  }
+  return encoded;
+}
+
+function randomDigits(): number[] {
+  return Array.from(globalThis.crypto.getRandomValues(new Uint8Array(RANDOM_LENGTH)), byte => byte % 32);
+}
+
+/**
+ * Add one to the random part, so references made in the same millisecond still sort in order
+ */
+function increment(digits: number[]): number[] {
+  const next = [...digits];
+  for (let i = next.length - 1; i >= 0; i--) {
+    if (next[i] < 31) {
+      next[i]++;
+      return next;
+    }
+    next[i] = 0;
+  }
+  throw new Error('Reference space for this millisecond is exhausted');
+}
+
+/**
+ * Luhn mod 36 check character
+ */
+function checkCharacter(value: string): string {
+  const base = CHECK_ALPHABET.length;
+  let factor = 2;
+  let sum = 0;
+
+  for (let i = value.length - 1; i >= 0; i--) {
+    const codePoint = CHECK_ALPHABET.indexOf(value[i]);
+    const addend = factor * codePoint;
+    sum += Math.floor(addend / base) + (addend % base);
+    factor = factor === 2 ? 1 : 2;
+  }
+
+  return CHECK_ALPHABET[(base - (sum % base)) % base];
+}
+
+/**
+ * Create a new merchant reference
+ * @param prefix - Merchant/store prefix, 1-10 uppercase letters or digits
+ * @param now - Creation time, defaults to the current time
+ * @throws If the prefix is not valid
+ */
+export function generateReference(prefix: string, now: number = Date.now()): string {
+  if (!REFERENCE_PREFIX_PATTERN.test(prefix)) {
+    throw new Error(`Reference prefix must be 1-10 uppercase letters or digits, got "${prefix}"`);
+  }
+
+  // Same (or an earlier, after a clock step back) millisecond: stay monotonic
+  if (now <= lastTime) {
+    lastRandom = increment(lastRandom);
+  } else {
+    lastTime = now;
+    lastRandom = randomDigits();
+  }
+
+  const body = encodeTime(lastTime) + lastRandom.map(digit => ENCODING[digit]).join('');
+  return `${prefix}-${body}${checkCharacter(prefix + body)}`;
+}
+
+/**
+ * Whether a reference is well formed and its check character matches
+ * Use to reject mistyped references before looking them up
+ */
+export function isValidReference(reference: string): boolean {
+  const match = /^([A-Z0-9]{1,10})-([0-9A-HJKMNP-TV-Z]{18})([0-9A-Z])$/.exec(reference);
+  if (!match) return false;
+
+  const [, prefix, body, check] = match;
+  return checkCharacter(prefix + body) === check;
+}
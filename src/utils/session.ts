@@ -0,0 +1,112 @@
+/**
+ * Staff Sessions
+ * Signed session cookies for the admin area
+ * Handles:
+ * - Staff roles and how they rank
+ * - Signing and verifying session tokens (HMAC-SHA256)
+ *
+ * Uses Web Crypto only, so it runs in the edge middleware as well as in API routes.
+ * Token format: base64url(JSON payload) "." base64url(signature)
+ */
+
+export const STAFF_ROLES = ['viewer', 'operator', 'admin'] as const;
+
+export type StaffRole = typeof STAFF_ROLES[number];
+
+export const SESSION_COOKIE = 'staff_session';
+export const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Only used outside production; config.ts refuses to start production without SESSION_SECRET
+const DEVELOPMENT_SECRET = 'development-only-session-secret-do-not-use';
+
+export interface StaffSession {
+  username: string;
+  role: StaffRole;
+  expiresAt: number; // Epoch milliseconds
+}
+
+export function isStaffRole(value: unknown): value is StaffRole {
+  return typeof value === 'string' && (STAFF_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a role includes everything the required role may do
+ */
+export function hasRole(role: StaffRole, required: StaffRole): boolean {
+  return STAFF_ROLES.indexOf(role) >= STAFF_ROLES.indexOf(required);
+}
+
+/**
+ * Key sessions are signed with, from SESSION_SECRET
+ */
+export function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET is required in production');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+/**
+ * Create a signed token for a session
+ */
+export async function signSession(session: StaffSession, secret: string = sessionSecret()): Promise<string> {
+  const payload = toBase64Url(new TextEncoder().encode(JSON.stringify(session)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(secret), new TextEncoder().encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Read a session token
+ * @returns The session, or null if the token is malformed, tampered with or expired
+ */
+export async function verifySession(
+  token: string | undefined,
+  secret: string = sessionSecret()
+): Promise<StaffSession | null> {
+  const [payload, signature, ...rest] = (token || '').split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(secret),
+      fromBase64Url(signature),
+      new TextEncoder().encode(payload)
+    );
+    if (!valid) return null;
+
+    const session = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as StaffSession;
+    if (!isStaffRole(session.role) || typeof session.expiresAt !== 'number' || session.expiresAt <= Date.now()) {
+      return null;
+    }
+    return session;
+  } catch {
+    return null;
+  }
+}